@@ -8,6 +8,7 @@ import { useCalendarRecords } from '@/contexts/calendar-context';
 import { useFriends } from '@/contexts/friends-context';
 import { useProfile } from '@/contexts/profile-context';
 import { getPersonEmoji } from '@/constants/people';
+import { reactionOptions } from '@/constants/reactions';
 import { ApiClientError } from '@/services/api-client';
 
 const getErrorMessage = (error: unknown, fallback: string) => {
@@ -63,7 +64,6 @@ export default function CalendarScreen() {
       }),
     ];
   }, [currentUserKey, friends, profile.emoji, profile.nickname]);
-  const reactionOptions = useMemo(() => ['👏', '😍', '🔥', '✨', '👍', '🥳'], []);
 
   const year = currentMonth.getFullYear();
   const monthIndex = currentMonth.getMonth();
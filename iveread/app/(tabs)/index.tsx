@@ -19,16 +19,30 @@ import { Link } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import {
+  formatLastActive,
+  formatWeeklyActiveMembers,
+  getLastActiveDays,
+} from '@/constants/group-activity';
+import { formatMemberCount, isGroupFull } from '@/constants/group-policy';
+import { formatProgressPercent, getGroupAverageProgress } from '@/constants/reading-progress';
 import { Palette, Shadows, Typography } from '@/constants/ui';
-import { ApiClientError } from '@/services/api-client';
+import { ApiClientError, isAbortError } from '@/services/api-client';
+import { useCachedQuery } from '@/hooks/use-cached-query';
 import { getBookByIsbn, searchBooks } from '@/services/books';
-import { getFinishedBooks, getGroups, joinGroup, searchGroups } from '@/services/groups';
-import type { FinishedGroup, Group } from '@/types/group';
+import {
+  finishedBooksQuery,
+  groupsQuery,
+  isGroupFullError,
+  joinGroup,
+  requestToJoinGroup,
+  searchGroups,
+} from '@/services/groups';
+import type { Group, GroupVisibility } from '@/types/group';
 
 const FALLBACK_AUTHOR = '지은이 정보 없음';
 const FALLBACK_PUBLISHER = '출판사 정보 없음';
 type LoadState = 'loading' | 'success' | 'error';
-type FinishedLoadState = LoadState;
 type SearchState = 'idle' | LoadState;
 
 type GroupCard = {
@@ -39,8 +53,15 @@ type GroupCard = {
   tag: string;
   tags: string[];
   lastActive: string;
+  // Members who posted this week; null when the server sends no activity.
+  weeklyMembers: string | null;
   cover: ImageSourcePropType;
   memberCount: number;
+  memberLimit: number | null;
+  visibility: GroupVisibility;
+  requestedByMe: boolean;
+  // Average of the members' progress, null when it can't be computed.
+  progress: number | null;
 };
 
 const formatRelativeTime = (value: string) => {
@@ -66,33 +87,41 @@ const getErrorMessage = (error: unknown, fallback: string) => {
   return fallback;
 };
 
+// Approval-required groups take a join request instead of joining right away.
+const getJoinLabel = (club: GroupCard, isJoining: boolean) => {
+  if (isGroupFull(club)) return '정원 마감';
+  if (club.visibility === 'approval') {
+    if (club.requestedByMe) return '요청됨';
+    return isJoining ? '요청 중' : '요청하기';
+  }
+  return isJoining ? '가입 중' : '가입';
+};
+
 const mapGroupToCard = async (
   group: Group,
-  options: { enrich?: boolean } = {},
+  options: { enrich?: boolean; signal?: AbortSignal } = {},
 ): Promise<GroupCard> => {
+  const { signal } = options;
   const shouldEnrich = options.enrich !== false;
   let author = FALLBACK_AUTHOR;
-  let tag = FALLBACK_PUBLISHER;
-  let tags: string[] = [];
+  let publisher = FALLBACK_PUBLISHER;
   let cover: ImageSourcePropType = { uri: group.bookCover };
 
   if (shouldEnrich) {
     try {
-      const book = await getBookByIsbn(group.bookIsbn);
+      const book = await getBookByIsbn(group.bookIsbn, { signal });
       author = book.author || FALLBACK_AUTHOR;
-      tag = book.publisher || FALLBACK_PUBLISHER;
-      tags = book.publisher ? [book.publisher] : [];
+      publisher = book.publisher || FALLBACK_PUBLISHER;
       if (book.coverImage) {
         cover = { uri: book.coverImage };
       }
     } catch {
       try {
-        const search = await searchBooks(group.bookTitle, 1, 1);
+        const search = await searchBooks(group.bookTitle, 1, 1, { signal });
         const book = search.items[0];
         if (book) {
           author = book.author || FALLBACK_AUTHOR;
-          tag = book.publisher || FALLBACK_PUBLISHER;
-          tags = book.publisher ? [book.publisher] : [];
+          publisher = book.publisher || FALLBACK_PUBLISHER;
           if (book.coverImage) {
             cover = { uri: book.coverImage };
           }
@@ -108,11 +137,19 @@ const mapGroupToCard = async (
     groupName: group.name,
     title: group.bookTitle,
     author,
-    tag,
-    tags,
-    lastActive: formatRelativeTime(String(group.createdAt)),
+    tag: group.description ?? publisher,
+    tags: group.tags,
+    // Without activity data the creation date stands in for the last activity.
+    lastActive: group.activity
+      ? formatLastActive(getLastActiveDays(group))
+      : formatRelativeTime(String(group.createdAt)),
+    weeklyMembers: group.activity ? formatWeeklyActiveMembers(group) : null,
     cover,
     memberCount: group.memberCount,
+    memberLimit: group.memberLimit,
+    visibility: group.visibility,
+    requestedByMe: group.requestedByMe,
+    progress: getGroupAverageProgress(group),
   };
 };
 
@@ -130,22 +167,32 @@ export default function HomeScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTag, setSelectedTag] = useState('전체');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const [groupCards, setGroupCards] = useState<GroupCard[]>([]);
-  const [groupStatus, setGroupStatus] = useState<LoadState>('loading');
-  const [groupError, setGroupError] = useState<string | null>(null);
+  const [groupCards, setGroupCards] = useState<GroupCard[] | null>(null);
   const [searchResults, setSearchResults] = useState<GroupCard[]>([]);
   const [searchStatus, setSearchStatus] = useState<SearchState>('idle');
   const [searchError, setSearchError] = useState<string | null>(null);
   const [joiningGroupIds, setJoiningGroupIds] = useState<string[]>([]);
-  const [finishedBooks, setFinishedBooks] = useState<FinishedGroup[]>([]);
-  const [finishedStatus, setFinishedStatus] = useState<FinishedLoadState>('loading');
-  const [finishedError, setFinishedError] = useState<string | null>(null);
+  const {
+    data: groups,
+    status: groupsQueryStatus,
+    error: groupError,
+  } = useCachedQuery(groupsQuery, '교환독서 목록을 불러오지 못했어요.');
+  const {
+    data: finishedData,
+    status: finishedStatus,
+    error: finishedError,
+    revalidate: revalidateFinishedBooks,
+  } = useCachedQuery(finishedBooksQuery, '완독한 책을 불러오지 못했어요.');
   const insets = useSafeAreaInsets();
   const heroIllustration = require('../../assets/images/image-Photoroom1.png');
 
+  const finishedBooks = useMemo(() => finishedData ?? [], [finishedData]);
+  const groupStatus: LoadState =
+    groupsQueryStatus === 'error' ? 'error' : groupCards ? 'success' : 'loading';
+
   const tagOptions = useMemo(() => {
     const tagSet = new Set<string>();
-    groupCards.forEach((club) => {
+    groupCards?.forEach((club) => {
       club.tags.forEach((tag) => tagSet.add(tag));
     });
     return ['전체', ...Array.from(tagSet)];
@@ -158,7 +205,7 @@ export default function HomeScreen() {
 
   const filteredClubs = useMemo(() => {
     const keyword = searchQuery.trim().toLowerCase();
-    const filtered = groupCards.filter((club) => {
+    const filtered = (groupCards ?? []).filter((club) => {
       if (finishedGroupIds.has(club.id)) return false;
       const titleMatch = club.title.toLowerCase().includes(keyword);
       const groupMatch = club.groupName.toLowerCase().includes(keyword);
@@ -168,56 +215,24 @@ export default function HomeScreen() {
     return filtered;
   }, [finishedGroupIds, groupCards, searchQuery, selectedTag]);
 
-  const loadGroups = useCallback(async (isActiveRef?: { current: boolean }) => {
-    setGroupStatus('loading');
-    setGroupError(null);
-    try {
-      const groups = await getGroups();
-      const cards = await Promise.all(groups.map((group) => mapGroupToCard(group)));
-      if (isActiveRef && !isActiveRef.current) return;
-      setGroupCards(cards);
-      setGroupStatus('success');
-    } catch (error) {
-      if (isActiveRef && !isActiveRef.current) return;
-      setGroupCards([]);
-      setGroupStatus('error');
-      setGroupError(getErrorMessage(error, '교환독서 목록을 불러오지 못했어요.'));
-    }
-  }, []);
-
-  const loadFinishedBooks = useCallback(async (isActiveRef?: { current: boolean }) => {
-    setFinishedStatus('loading');
-    setFinishedError(null);
-    try {
-      const books = await getFinishedBooks();
-      if (isActiveRef && !isActiveRef.current) return;
-      setFinishedBooks(books);
-      setFinishedStatus('success');
-    } catch (error) {
-      if (isActiveRef && !isActiveRef.current) return;
-      setFinishedBooks([]);
-      setFinishedStatus('error');
-      setFinishedError(getErrorMessage(error, '완독한 책을 불러오지 못했어요.'));
-    }
-  }, []);
-
+  // Book details come from the query cache, so re-mapping cached groups is cheap.
   useEffect(() => {
-    const isActive = { current: true };
-    loadGroups(isActive);
-    loadFinishedBooks(isActive);
+    if (!groups) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    Promise.all(groups.map((group) => mapGroupToCard(group, { signal }))).then((cards) => {
+      if (signal.aborted) return;
+      setGroupCards(cards);
+    });
     return () => {
-      isActive.current = false;
+      controller.abort();
     };
-  }, [loadFinishedBooks, loadGroups]);
+  }, [groups]);
 
   useFocusEffect(
     useCallback(() => {
-      const isActive = { current: true };
-      loadFinishedBooks(isActive);
-      return () => {
-        isActive.current = false;
-      };
-    }, [loadFinishedBooks]),
+      revalidateFinishedBooks();
+    }, [revalidateFinishedBooks]),
   );
 
   useEffect(() => {
@@ -242,19 +257,19 @@ export default function HomeScreen() {
       return;
     }
 
-    let isActive = true;
+    const controller = new AbortController();
     setSearchStatus('loading');
     setSearchError(null);
     const debounceId = setTimeout(() => {
-      searchGroups(keyword)
+      searchGroups(keyword, { signal: controller.signal })
         .then((groups) => Promise.all(groups.map((group) => mapGroupToCard(group, { enrich: false }))))
         .then((cards) => {
-          if (!isActive) return;
+          if (controller.signal.aborted) return;
           setSearchResults(cards);
           setSearchStatus('success');
         })
         .catch((error) => {
-          if (!isActive) return;
+          if (controller.signal.aborted || isAbortError(error)) return;
           setSearchResults([]);
           setSearchStatus('error');
           setSearchError(getErrorMessage(error, '검색 결과를 불러오지 못했어요.'));
@@ -262,27 +277,45 @@ export default function HomeScreen() {
     }, 400);
 
     return () => {
-      isActive = false;
+      controller.abort();
       clearTimeout(debounceId);
     };
   }, [isSearchOpen, searchQuery]);
 
   const handleJoinGroup = useCallback(
-    async (groupId: string) => {
+    async (club: GroupCard) => {
+      const groupId = club.id;
       if (joiningGroupIds.includes(groupId)) return;
       setJoiningGroupIds((prev) => [...prev, groupId]);
       try {
+        if (club.visibility === 'approval') {
+          await requestToJoinGroup(groupId);
+          setSearchResults((prev) =>
+            prev.map((group) => (group.id === groupId ? { ...group, requestedByMe: true } : group)),
+          );
+          Alert.alert('안내', '가입을 요청했어요. 관리자가 승인하면 참여할 수 있어요.');
+          return;
+        }
         await joinGroup(groupId);
         setSearchResults((prev) => prev.filter((group) => group.id !== groupId));
-        await loadGroups();
         Alert.alert('안내', '그룹에 가입했어요.');
       } catch (error) {
+        if (isGroupFullError(error)) {
+          // Someone took the last seat after the search ran; show the card as full.
+          setSearchResults((prev) =>
+            prev.map((group) =>
+              group.id === groupId && group.memberLimit !== null
+                ? { ...group, memberCount: group.memberLimit }
+                : group,
+            ),
+          );
+        }
         Alert.alert('안내', getErrorMessage(error, '그룹 가입에 실패했어요.'));
       } finally {
         setJoiningGroupIds((prev) => prev.filter((id) => id !== groupId));
       }
     },
-    [joiningGroupIds, loadGroups],
+    [joiningGroupIds],
   );
   const contentContainerStyle = useMemo(
     () => [styles.container, { paddingBottom: 140 + insets.bottom }],
@@ -382,28 +415,27 @@ export default function HomeScreen() {
               ) : (
                 searchResults.map((club) => {
                   const isJoining = joiningGroupIds.includes(club.id);
+                  const isFull = isGroupFull(club);
+                  const isDisabled = isJoining || isFull || club.requestedByMe;
                   return (
                     <View key={club.id} style={styles.searchResultCard}>
                       <Image source={club.cover} style={styles.searchResultCover} />
                       <View style={styles.searchResultBody}>
                         <Text style={styles.searchResultTitle}>{club.title}</Text>
                         <Text style={styles.searchResultMeta}>
-                          {club.groupName} · {club.memberCount}명 참여
+                          {club.groupName} · {formatMemberCount(club)} 참여
                         </Text>
                         <Text style={styles.searchResultMeta}>{club.author}</Text>
                         <Text style={styles.searchResultTag}>{club.tag}</Text>
                       </View>
                       <Pressable
-                        onPress={() => handleJoinGroup(club.id)}
-                        style={[styles.joinButton, isJoining && styles.joinButtonDisabled]}
+                        onPress={() => handleJoinGroup(club)}
+                        style={[styles.joinButton, isDisabled && styles.joinButtonDisabled]}
                         accessibilityRole="button"
-                        disabled={isJoining}>
+                        disabled={isDisabled}>
                         <Text
-                          style={[
-                            styles.joinButtonText,
-                            isJoining && styles.joinButtonTextDisabled,
-                          ]}>
-                          {isJoining ? '가입 중' : '가입'}
+                          style={[styles.joinButtonText, isDisabled && styles.joinButtonTextDisabled]}>
+                          {getJoinLabel(club, isJoining)}
                         </Text>
                       </Pressable>
                     </View>
@@ -438,9 +470,29 @@ export default function HomeScreen() {
                       <Text style={styles.cardMeta}>{club.groupName}</Text>
                       <Text style={styles.cardMetaDivider}>·</Text>
                       <Text style={styles.cardMeta}>{club.lastActive}</Text>
+                      <Text style={styles.cardMetaDivider}>·</Text>
+                      <Text style={styles.cardMeta}>{formatMemberCount(club)}</Text>
                     </View>
                     <Text style={styles.cardMeta}>{club.author}</Text>
+                    {club.weeklyMembers ? (
+                      <Text style={styles.cardMeta}>{club.weeklyMembers}</Text>
+                    ) : null}
                     <Text style={styles.cardTag}>{club.tag}</Text>
+                    {club.progress !== null ? (
+                      <View style={styles.cardProgressRow}>
+                        <View style={styles.cardProgressTrack}>
+                          <View
+                            style={[
+                              styles.cardProgressFill,
+                              { width: formatProgressPercent(club.progress) },
+                            ]}
+                          />
+                        </View>
+                        <Text style={styles.cardProgressText}>
+                          평균 {formatProgressPercent(club.progress)}
+                        </Text>
+                      </View>
+                    ) : null}
                     <View style={styles.cardTagRow}>
                       {club.tags.map((tag) => (
                         <View key={tag} style={styles.cardTagChip}>
@@ -754,6 +806,29 @@ const styles = StyleSheet.create({
     color: Palette.textTertiary,
     marginTop: 8,
   },
+  cardProgressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  cardProgressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: Palette.accentSoft,
+    overflow: 'hidden',
+  },
+  cardProgressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: Palette.accent,
+  },
+  cardProgressText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
   cardTagRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
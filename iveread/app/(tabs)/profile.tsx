@@ -14,9 +14,9 @@ import { useFocusEffect } from '@react-navigation/native';
 import { Palette, Shadows, Typography } from '@/constants/ui';
 import { useFriends } from '@/contexts/friends-context';
 import { useProfile } from '@/contexts/profile-context';
+import { useCachedQuery } from '@/hooks/use-cached-query';
 import { logout } from '@/services/auth';
-import { getFinishedBooks, getGroups } from '@/services/groups';
-import { ApiClientError } from '@/services/api-client';
+import { finishedBooksQuery, groupsQuery } from '@/services/groups';
 
 const profileSections = [
   { id: 'profile', title: '프로필', detail: '내 정보 수정' },
@@ -28,14 +28,21 @@ export default function ProfileScreen() {
   const router = useRouter();
   const { profile, updateProfile, resetProfile } = useProfile();
   const { friends, resetFriends } = useFriends();
-  const [activeCount, setActiveCount] = useState(0);
-  const [finishedCount, setFinishedCount] = useState(0);
+  const { data: groups, revalidate: revalidateGroups } = useCachedQuery(
+    groupsQuery,
+    '프로필 정보를 불러오지 못했어요.',
+  );
+  const { data: finished, revalidate: revalidateFinished } = useCachedQuery(
+    finishedBooksQuery,
+    '프로필 정보를 불러오지 못했어요.',
+  );
   const [isEmojiPickerOpen, setIsEmojiPickerOpen] = useState(false);
   const avatarLabel = profile.emoji || (profile.nickname ? profile.nickname.slice(0, 1) : '?');
   const displayName = profile.nickname?.trim() || '사용자';
   const friendCount = friends.length;
-  const recordCount = activeCount;
-  const completedCount = finishedCount;
+  const finishedGroupIds = new Set((finished ?? []).map((item) => item.groupId));
+  const recordCount = (groups ?? []).filter((group) => !finishedGroupIds.has(group.id)).length;
+  const completedCount = finished?.length ?? 0;
 
   const handleLogout = useCallback(async () => {
     try {
@@ -45,26 +52,9 @@ export default function ProfileScreen() {
     } finally {
       resetProfile();
       resetFriends();
-      router.replace('/login');
-    }
-  }, [resetFriends, resetProfile, router]);
-
-  const loadCounts = useCallback(async (isActiveRef?: { current: boolean }) => {
-    try {
-      const [groups, finished] = await Promise.all([getGroups(), getFinishedBooks()]);
-      if (isActiveRef && !isActiveRef.current) return;
-      const finishedGroupIds = new Set(finished.map((item) => item.groupId));
-      setFinishedCount(finished.length);
-      setActiveCount(groups.filter((group) => !finishedGroupIds.has(group.id)).length);
-    } catch (error) {
-      if (isActiveRef && !isActiveRef.current) return;
-      const message =
-        error instanceof ApiClientError ? error.message : '프로필 정보를 불러오지 못했어요.';
-      console.warn(message);
-      setFinishedCount(0);
-      setActiveCount(0);
+      // AuthGate sends the signed-out session to the login screen.
     }
-  }, []);
+  }, [resetFriends, resetProfile]);
 
   const emojiCategories = useMemo(
     () => [
@@ -174,12 +164,9 @@ export default function ProfileScreen() {
 
   useFocusEffect(
     useCallback(() => {
-      const isActive = { current: true };
-      loadCounts(isActive);
-      return () => {
-        isActive.current = false;
-      };
-    }, [loadCounts]),
+      revalidateGroups();
+      revalidateFinished();
+    }, [revalidateFinished, revalidateGroups]),
   );
 
   return (
@@ -1,42 +1,95 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import { Stack, usePathname, useRouter, useSegments } from 'expo-router';
+import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { CalendarRecordsProvider } from '@/contexts/calendar-context';
-import { FriendsProvider } from '@/contexts/friends-context';
-import { ProfileProvider } from '@/contexts/profile-context';
+import { FriendsProvider, useFriends } from '@/contexts/friends-context';
+import { ProfileProvider, useProfile } from '@/contexts/profile-context';
 import { ReadingClubsProvider } from '@/contexts/reading-clubs-context';
+import { SessionProvider, useSession } from '@/contexts/session-context';
+import { startOutboxSync } from '@/services/outbox';
 
-export const unstable_settings = {
-  initialRouteName: 'login',
-};
+SplashScreen.preventAutoHideAsync().catch(() => {});
+
+const publicRoutes = new Set<string>(['login', 'signup', 'password-reset']);
+
+function AuthGate() {
+  const router = useRouter();
+  const segments = useSegments();
+  const pathname = usePathname();
+  const { status, lastEvent } = useSession();
+  const { resetProfile } = useProfile();
+  const { resetFriends } = useFriends();
+  const rootSegment = segments[0] as string | undefined;
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    SplashScreen.hideAsync().catch(() => {});
+    // app/index.tsx picks the first screen; this covers routes reached directly, e.g. via deep link.
+    if (!rootSegment) return;
+    if (status === 'signedOut' && !publicRoutes.has(rootSegment)) {
+      // Keep the link opened on a cold start, e.g. an invite, so login can continue to it.
+      // After a logout or expiry the path belongs to the previous account, so it is dropped.
+      router.replace(
+        lastEvent === null && pathname && pathname !== '/'
+          ? { pathname: '/login', params: { redirect: pathname } }
+          : '/login',
+      );
+      return;
+    }
+    // After an in-app login the login screen navigates on its own once the profile is loaded.
+    if (status === 'signedIn' && lastEvent === null && rootSegment === 'login') {
+      router.replace('/(tabs)');
+    }
+  }, [lastEvent, pathname, rootSegment, router, status]);
+
+  useEffect(() => {
+    if (status !== 'signedIn') return;
+    return startOutboxSync();
+  }, [status]);
+
+  useEffect(() => {
+    if (lastEvent !== 'expired') return;
+    resetProfile();
+    resetFriends();
+    Alert.alert('안내', '로그인이 만료되었어요. 다시 로그인해 주세요.');
+  }, [lastEvent, resetFriends, resetProfile]);
+
+  return null;
+}
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <CalendarRecordsProvider>
-        <ReadingClubsProvider>
-          <FriendsProvider>
-            <ProfileProvider>
-              <Stack initialRouteName="login">
-                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                <Stack.Screen name="login" options={{ headerShown: false }} />
-                <Stack.Screen name="profile-edit" options={{ headerShown: false }} />
-                <Stack.Screen name="password-reset" options={{ headerShown: false }} />
-                <Stack.Screen name="friends" options={{ headerShown: false }} />
-                <Stack.Screen name="reading-insights" options={{ headerShown: false }} />
-                <Stack.Screen name="add-record" options={{ headerShown: false }} />
-                <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-              </Stack>
-              <StatusBar style="auto" />
-            </ProfileProvider>
-          </FriendsProvider>
-        </ReadingClubsProvider>
-      </CalendarRecordsProvider>
+      <SessionProvider>
+        <CalendarRecordsProvider>
+          <ReadingClubsProvider>
+            <FriendsProvider>
+              <ProfileProvider>
+                <Stack>
+                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                  <Stack.Screen name="login" options={{ headerShown: false }} />
+                  <Stack.Screen name="profile-edit" options={{ headerShown: false }} />
+                  <Stack.Screen name="password-reset" options={{ headerShown: false }} />
+                  <Stack.Screen name="friends" options={{ headerShown: false }} />
+                  <Stack.Screen name="reading-insights" options={{ headerShown: false }} />
+                  <Stack.Screen name="add-record" options={{ headerShown: false }} />
+                  <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+                </Stack>
+                <AuthGate />
+                <StatusBar style="auto" />
+              </ProfileProvider>
+            </FriendsProvider>
+          </ReadingClubsProvider>
+        </CalendarRecordsProvider>
+      </SessionProvider>
     </ThemeProvider>
   );
 }
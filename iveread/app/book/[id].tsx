@@ -1,5 +1,6 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Image,
   Keyboard,
@@ -8,7 +9,9 @@ import {
   Platform,
   FlatList,
   Pressable,
+  RefreshControl,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -24,32 +27,78 @@ import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 
 import { Palette, Shadows, Typography } from '@/constants/ui';
+import { getRecordLink, getSentenceLink } from '@/constants/app-links';
+import {
+  adjustReactionCounts,
+  groupReactions,
+  orderReactionCounts,
+  reactionOptions,
+} from '@/constants/reactions';
+import { canManageGroup, getGroupRole } from '@/constants/group-policy';
+import {
+  formatPageRange,
+  validatePageRange,
+  validateSentencePage,
+} from '@/constants/page-range';
+import {
+  formatMemberProgress,
+  formatProgressPercent,
+  getGroupAverageProgress,
+  getMemberProgress,
+  isSpoilerPage,
+  type ProgressOrder,
+} from '@/constants/reading-progress';
 import { getPersonEmoji } from '@/constants/people';
 import { useProfile } from '@/contexts/profile-context';
 import { ApiClientError } from '@/services/api-client';
 import { getBookByIsbn, searchBooks } from '@/services/books';
-import { finishGroupRead, getFinishedBooks, getGroup, getGroups, leaveGroup } from '@/services/groups';
 import {
-  createRecord,
-  createRecordComment,
+  finishGroupRead,
+  getFinishedBooks,
+  getGroup,
+  groupQuery,
+  leaveGroup,
+} from '@/services/groups';
+import {
+  createRecordCommentOrQueue,
+  createRecordOrQueue,
+  createRecordReaction,
+  deleteRecord,
+  deleteRecordComment,
+  deleteRecordReaction,
   getGroupRecords,
-  getRecordLikeCount,
+  getRecord,
   getRecordComments,
+  getRecordLikeCount,
+  getRecordReactions,
   toggleRecordLike,
+  updateRecord,
+  updateRecordComment,
+  updateRecordReaction,
 } from '@/services/records';
 import { normalizeUploadUrl, uploadImage } from '@/services/images';
-import { getRecordLikeState, setRecordLikeState } from '@/services/record-likes';
 import {
-  createSentence,
-  createSentenceComment,
+  createSentenceCommentOrQueue,
+  createSentenceOrQueue,
+  deleteSentence,
   deleteSentenceComment,
   getGroupSentences,
   getSentenceComments,
+  updateSentence,
   updateSentenceComment,
 } from '@/services/sentences';
+import type { OutboxEntry, OutboxStatus } from '@/services/outbox';
 import { getUserId } from '@/services/session';
+import { useCachedQuery } from '@/hooks/use-cached-query';
+import { useOutbox } from '@/hooks/use-outbox';
 import type { Book } from '@/types/book';
 import type { Group } from '@/types/group';
+import type { RecordComment } from '@/types/record-comment';
+import type { RecordLiker } from '@/types/record-like';
+import type { RecordReaction, RecordReactionCount } from '@/types/record-reaction';
+import type { ReadingRecord } from '@/types/record';
+import type { SentenceComment } from '@/types/comment';
+import type { Sentence } from '@/types/sentence';
 
 const dayKeyOrder = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
 
@@ -86,22 +135,48 @@ type SentenceReply = {
   time: string;
   text: string;
   userId: string | null;
+  syncStatus?: OutboxStatus;
 };
 
 type SentenceItem = {
   id: string;
   page: string;
+  pageNo: number;
   text: string;
+  thought: string | null;
   name: string;
+  userId: string | null;
+  createdAt: string;
+  // Starts as the server's preview; the rest load when the thread is opened.
   replies: SentenceReply[];
+  replyCount: number;
+  repliesLoaded: boolean;
   source: 'remote' | 'local';
+  syncStatus?: OutboxStatus;
 };
 
+type SentenceOrder = 'recent' | 'page';
+
 type FeedComment = {
   id: string;
   name: string;
   time: string;
   text: string;
+  userId?: string | null;
+  // Set on replies: the top-level comment of the thread.
+  parentCommentId?: string | null;
+  syncStatus?: OutboxStatus;
+};
+
+type FeedCommentThread = {
+  comment: FeedComment;
+  replies: FeedComment[];
+};
+
+type CommentReplyTarget = {
+  postId: string;
+  commentId: string;
+  name: string;
 };
 
 type FeedItem = {
@@ -113,10 +188,21 @@ type FeedItem = {
   image: ImageSourcePropType;
   caption: string;
   likes: number;
+  pageRange: string;
+  startPage?: number;
+  endPage?: number;
   comments: FeedComment[];
+  // Comments arrive only when the post is opened; until then `comments` may be partial.
+  commentCount: number;
+  commentsLoaded: boolean;
+  reactionCounts: RecordReactionCount[];
+  myReaction: RecordReaction | null;
   createdAt: string;
+  // Server timestamp of the record; `createdAt` above is the reading date key.
+  postedAt?: string;
   recordId?: string;
   source: 'remote' | 'local';
+  syncStatus?: OutboxStatus;
 };
 
 const formatDisplayDate = (value?: string | null) => {
@@ -142,6 +228,137 @@ const formatRelativeTime = (value: string) => {
   return `${days}일 전`;
 };
 
+const toSentenceReply = (comment: SentenceComment): SentenceReply => ({
+  id: comment.id,
+  name: comment.userNickname,
+  time: formatRelativeTime(String(comment.createdAt)),
+  text: comment.content,
+  userId: comment.userId,
+});
+
+const toSentenceItem = (sentence: Sentence): SentenceItem => ({
+  id: sentence.id,
+  page: `p. ${sentence.pageNo}`,
+  pageNo: sentence.pageNo,
+  text: sentence.content,
+  thought: sentence.thought,
+  name: sentence.userNickname,
+  userId: sentence.userId,
+  createdAt: sentence.createdAt,
+  replies: sentence.commentPreview.map(toSentenceReply),
+  replyCount: sentence.commentCount,
+  repliesLoaded: sentence.commentPreview.length >= sentence.commentCount,
+  source: 'remote',
+});
+
+const compareSentencesByRecency = (a: SentenceItem, b: SentenceItem) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || a.pageNo - b.pageNo;
+
+// Page order, so a sentence moves when its page number is edited; same page shows newest first.
+const compareSentenceItems = (a: SentenceItem, b: SentenceItem) =>
+  a.pageNo - b.pageNo || compareSentencesByRecency(a, b);
+
+const toFeedComment = (comment: RecordComment): FeedComment => ({
+  id: comment.id,
+  name: comment.userNickname,
+  time: formatRelativeTime(String(comment.createdAt)),
+  text: comment.content,
+  userId: comment.userId,
+  parentCommentId: comment.parentCommentId,
+});
+
+// Replies whose parent is gone are shown as top-level comments.
+const toCommentThreads = (comments: FeedComment[]): FeedCommentThread[] => {
+  const ids = new Set(comments.map((comment) => comment.id));
+  const isReply = (comment: FeedComment) =>
+    Boolean(comment.parentCommentId && ids.has(comment.parentCommentId));
+  return comments
+    .filter((comment) => !isReply(comment))
+    .map((comment) => ({
+      comment,
+      replies: comments.filter((reply) => reply.parentCommentId === comment.id),
+    }));
+};
+
+const splitMention = (text: string) => {
+  const match = /^(@\S+)\s?([\s\S]*)$/.exec(text);
+  return match ? { mention: match[1], rest: match[2] } : { mention: null, rest: text };
+};
+
+// The day a record stamps: its reading date, or the posting date when that is unreadable.
+const getRecordDateKey = (record: ReadingRecord) => {
+  const readDate = new Date(record.readDate);
+  return formatDateKey(
+    Number.isNaN(readDate.getTime()) ? new Date(record.createdAt) : readDate,
+  );
+};
+
+// Stamps and the streak never look further back than the start of last week.
+const fetchMyRecordDates = async (groupId: string, userId: string, signal: AbortSignal) => {
+  const since = getWeekStart(new Date());
+  since.setDate(since.getDate() - 7);
+  const dates = new Map<string, string>();
+  let cursor: string | undefined;
+  do {
+    const page = await getGroupRecords(
+      groupId,
+      { userId, since: since.toISOString(), cursor, limit: 100 },
+      { signal },
+    );
+    page.items.forEach((record) => dates.set(record.id, getRecordDateKey(record)));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return dates;
+};
+
+const toFeedItem = (record: ReadingRecord): FeedItem => {
+  return {
+    id: record.id,
+    recordId: record.id,
+    userId: record.userId,
+    userEmoji: record.userProfileEmoji,
+    name: record.userNickname,
+    time: formatRelativeTime(String(record.createdAt)),
+    image: { uri: normalizeUploadUrl(record.imageUrl) },
+    caption: record.comment ?? '',
+    pageRange: formatPageRange(record.startPage, record.endPage),
+    startPage: record.startPage,
+    endPage: record.endPage,
+    likes: record.likeCount,
+    comments: [],
+    commentCount: record.commentCount,
+    commentsLoaded: record.commentCount === 0,
+    reactionCounts: record.reactionCounts,
+    myReaction: record.myReaction,
+    createdAt: getRecordDateKey(record),
+    postedAt: record.createdAt,
+    source: 'remote',
+  };
+};
+
+const getPostedTime = (item: FeedItem) => (item.postedAt ? new Date(item.postedAt).getTime() : 0);
+
+// Adds records the feed doesn't have yet and keeps it newest first, wherever they came from.
+const mergeFeedItems = (items: FeedItem[], incoming: FeedItem[]) => {
+  const seen = new Set(items.map((item) => item.id));
+  return [...items, ...incoming.filter((item) => !seen.has(item.id))].sort(
+    (a, b) => getPostedTime(b) - getPostedTime(a),
+  );
+};
+
+const getLikedRecordIds = (records: ReadingRecord[]) =>
+  records.filter((record) => record.likedByMe).map((record) => record.id);
+
+const syncStatusLabel: Record<OutboxStatus, string> = {
+  pending: '전송 대기',
+  failed: '전송 실패',
+};
+
+const getOutboxText = (entry: OutboxEntry, key: string) => {
+  const value = entry.body[key];
+  return typeof value === 'string' ? value : '';
+};
+
 const getErrorMessage = (error: unknown, fallback: string) => {
   if (error instanceof ApiClientError) {
     return error.message || fallback;
@@ -229,8 +446,15 @@ const weeklyStampConfig = [
 export default function BookDetailScreen() {
   const router = useRouter();
   const { profile } = useProfile();
-  const { id } = useLocalSearchParams<{ id?: string }>();
+  // `recordId` / `sentenceId` come from app/records/[id].tsx and app/sentences/[id].tsx.
+  const { id, recordId, sentenceId } = useLocalSearchParams<{
+    id?: string;
+    recordId?: string;
+    sentenceId?: string;
+  }>();
   const routeId = typeof id === 'string' ? id : undefined;
+  const linkedRecordId = typeof recordId === 'string' ? recordId : null;
+  const linkedSentenceId = typeof sentenceId === 'string' ? sentenceId : null;
   const [book, setBook] = useState<Book | null>(null);
   const [bookStatus, setBookStatus] = useState<LoadState>('loading');
   const [bookError, setBookError] = useState<string | null>(null);
@@ -242,8 +466,18 @@ export default function BookDetailScreen() {
   const [sentencesStatus, setSentencesStatus] = useState<LoadState>('loading');
   const [sentencesError, setSentencesError] = useState<string | null>(null);
   const [isAddingSentence, setIsAddingSentence] = useState(false);
+  const [isSubmittingSentence, setIsSubmittingSentence] = useState(false);
+  const [sentenceOrder, setSentenceOrder] = useState<SentenceOrder>('page');
+  // Author user id; null shows everyone's sentences.
+  const [sentenceAuthorFilter, setSentenceAuthorFilter] = useState<string | null>(null);
+  const [revealedSentenceIds, setRevealedSentenceIds] = useState<Set<string>>(new Set());
   const [sentenceText, setSentenceText] = useState('');
   const [sentencePage, setSentencePage] = useState('');
+  const [sentenceThought, setSentenceThought] = useState('');
+  const [editingSentenceId, setEditingSentenceId] = useState<string | null>(null);
+  const [editingSentenceText, setEditingSentenceText] = useState('');
+  const [editingSentencePage, setEditingSentencePage] = useState('');
+  const [editingSentenceThought, setEditingSentenceThought] = useState('');
   const [replyInputs, setReplyInputs] = useState<Record<string, string>>({});
   const [openReplyId, setOpenReplyId] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -252,37 +486,64 @@ export default function BookDetailScreen() {
   const [feedItems, setFeedItems] = useState<FeedItem[]>([]);
   const [feedStatus, setFeedStatus] = useState<LoadState>('loading');
   const [feedError, setFeedError] = useState<string | null>(null);
+  const [feedCursor, setFeedCursor] = useState<string | null>(null);
+  const [isLoadingMoreFeed, setIsLoadingMoreFeed] = useState(false);
+  const [isRefreshingFeed, setIsRefreshingFeed] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
   const [completeError, setCompleteError] = useState<string | null>(null);
   const [isLeaving, setIsLeaving] = useState(false);
   const [isFinished, setIsFinished] = useState(false);
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  // Set while the upload modal edits an existing record instead of posting a new one.
+  const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  const [isSavingRecord, setIsSavingRecord] = useState(false);
   const [uploadCaption, setUploadCaption] = useState('');
+  const [uploadStartPage, setUploadStartPage] = useState('');
+  const [uploadEndPage, setUploadEndPage] = useState('');
   const [selectedUploadImage, setSelectedUploadImage] = useState<ImageSourcePropType | null>(null);
   const [selectedUploadAsset, setSelectedUploadAsset] =
     useState<ImagePicker.ImagePickerAsset | null>(null);
   const [likedPostIds, setLikedPostIds] = useState<Set<string>>(new Set());
   const [feedCommentText, setFeedCommentText] = useState('');
+  const [commentReplyTarget, setCommentReplyTarget] = useState<CommentReplyTarget | null>(null);
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [editingCommentText, setEditingCommentText] = useState('');
+  const [loadingRepliesId, setLoadingRepliesId] = useState<string | null>(null);
+  const [loadingCommentsPostId, setLoadingCommentsPostId] = useState<string | null>(null);
+  const [postCommentsError, setPostCommentsError] = useState<string | null>(null);
+  const [likersPostId, setLikersPostId] = useState<string | null>(null);
+  const [likers, setLikers] = useState<RecordLiker[]>([]);
+  const [likersStatus, setLikersStatus] = useState<LoadState>('idle');
+  const [likersError, setLikersError] = useState<string | null>(null);
+  // Keyed by record id; loaded when a post is opened.
+  const [recordReactions, setRecordReactions] = useState<Record<string, RecordReaction[]>>({});
+  const [reactionStatus, setReactionStatus] = useState<LoadState>('idle');
+  const [isReacting, setIsReacting] = useState(false);
   const [selectedWeek, setSelectedWeek] = useState<'current' | 'previous'>('current');
+  const [progressOrder, setProgressOrder] = useState<ProgressOrder>('ahead');
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // The current user's records since last week, keyed by record id, for stamps and the streak.
+  // Loaded on their own because the feed only holds the group's newest page.
+  const [myRecordDates, setMyRecordDates] = useState<Map<string, string>>(new Map());
   const { width, height } = useWindowDimensions();
   const insets = useSafeAreaInsets();
   const hasLoadedFeedRef = useRef(false);
+  // Bumped by every full reload so slower page requests can tell they are outdated.
+  const feedRequestRef = useRef(0);
+  // Aborted when the group changes or the screen unmounts; page loads share it.
+  const feedSignalRef = useRef<AbortSignal | null>(null);
+  // Read through a ref so focus refreshes don't re-subscribe on every feed change.
+  const newestPostedAtRef = useRef<string | null>(null);
+  const pendingLikeIdsRef = useRef(new Set<string>());
+  // Lets a likers response tell whether its post's list is still the one on screen.
+  const likersPostIdRef = useRef<string | null>(null);
   const uploadScrollRef = useRef<ScrollView | null>(null);
   const myEmoji = profile.emoji || (profile.nickname ? profile.nickname.slice(0, 1) : '😊');
   const getEmojiForName = (name: string) => getPersonEmoji(name, myEmoji);
   const galleryCardSize = Math.floor((width - 22 * 2 - 14) / 2);
   const previewImageHeight = Math.min(Math.floor(width * 1.35), Math.floor(height * 0.68));
-  const uploadDateKeys = useMemo(
-    () =>
-      new Set(
-        feedItems
-          .filter((item) => (currentUserId ? item.userId === currentUserId : false))
-          .map((item) => item.createdAt)
-          .filter((value): value is string => Boolean(value)),
-      ),
-    [currentUserId, feedItems],
-  );
+  const uploadDateKeys = useMemo(() => new Set(myRecordDates.values()), [myRecordDates]);
   const memberAvatars = useMemo(() => {
     const seen = new Set<string>();
     const members: { id: string; emoji: string }[] = [];
@@ -363,11 +624,10 @@ export default function BookDetailScreen() {
   const stampRowOffset = 80;
 
   useEffect(() => {
-    const isActiveRef = { current: true };
+    const controller = new AbortController();
 
     const load = async () => {
-        if (!routeId) {
-          if (!isActiveRef.current) return;
+      if (!routeId) {
         setBook(null);
         setBookStatus('error');
         setBookError('도서 정보를 불러올 수 없어요.');
@@ -392,30 +652,36 @@ export default function BookDetailScreen() {
       let bookMessage: string | null = null;
 
       try {
-        resolvedGroup = await getGroup(routeId);
+        resolvedGroup = await getGroup(routeId, { signal: controller.signal });
       } catch (error) {
         if (!isNotFoundError(error)) {
           groupMessage = getErrorMessage(error, '교환독서 정보를 불러오지 못했어요.');
         }
       }
 
-      try {
-        const bookId = resolvedGroup?.bookIsbn || routeId;
-        resolvedBook = await getBookByIsbn(bookId);
-      } catch (error) {
-        if (!isNotFoundError(error)) {
-          bookMessage = getErrorMessage(error, '도서 정보를 불러오지 못했어요.');
+      // The route id is always a group id; the book is looked up from the group.
+      if (resolvedGroup?.bookIsbn) {
+        try {
+          resolvedBook = await getBookByIsbn(resolvedGroup.bookIsbn, {
+            signal: controller.signal,
+          });
+        } catch (error) {
+          if (!isNotFoundError(error)) {
+            bookMessage = getErrorMessage(error, '도서 정보를 불러오지 못했어요.');
+          }
         }
       }
 
       if (!resolvedBook && resolvedGroup?.bookTitle) {
         try {
-          const search = await searchBooks(resolvedGroup.bookTitle, 1, 5);
+          const search = await searchBooks(resolvedGroup.bookTitle, 1, 5, {
+            signal: controller.signal,
+          });
           const match =
             search.items.find((item) => item.title === resolvedGroup?.bookTitle) ?? search.items[0];
           if (match) {
             try {
-              resolvedBook = await getBookByIsbn(match.isbn);
+              resolvedBook = await getBookByIsbn(match.isbn, { signal: controller.signal });
             } catch (error) {
               resolvedBook = match;
               if (!bookMessage && !isNotFoundError(error)) {
@@ -430,28 +696,7 @@ export default function BookDetailScreen() {
         }
       }
 
-      if (!resolvedGroup && resolvedBook) {
-        try {
-          const groups = await getGroups();
-          const match = groups.find((item) => item.bookTitle === resolvedBook?.title) ?? null;
-          if (match) {
-            try {
-              resolvedGroup = await getGroup(match.id);
-            } catch (error) {
-              resolvedGroup = match;
-              if (!groupMessage && !isNotFoundError(error)) {
-                groupMessage = getErrorMessage(error, '교환독서 정보를 불러오지 못했어요.');
-              }
-            }
-          }
-        } catch (error) {
-          if (!groupMessage) {
-            groupMessage = getErrorMessage(error, '교환독서 정보를 불러오지 못했어요.');
-          }
-        }
-      }
-
-      if (!isActiveRef.current) return;
+      if (controller.signal.aborted) return;
 
       if (resolvedBook) {
         setBook(resolvedBook);
@@ -479,17 +724,17 @@ export default function BookDetailScreen() {
     load();
 
     return () => {
-      isActiveRef.current = false;
+      controller.abort();
     };
   }, [routeId]);
 
   useEffect(() => {
     if (!groupId) return;
     if (group?.members?.length) return;
-    let isActive = true;
-    getGroup(groupId)
+    const controller = new AbortController();
+    getGroup(groupId, { signal: controller.signal })
       .then((detail) => {
-        if (!isActive) return;
+        if (controller.signal.aborted) return;
         setGroup((prev) =>
           prev
             ? {
@@ -503,7 +748,7 @@ export default function BookDetailScreen() {
         // Ignore to avoid blocking the screen if member fetch fails.
       });
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [group?.members?.length, groupId]);
 
@@ -512,145 +757,220 @@ export default function BookDetailScreen() {
       setIsFinished(false);
       return;
     }
-    let isActive = true;
-    getFinishedBooks()
+    const controller = new AbortController();
+    getFinishedBooks({ signal: controller.signal })
       .then((books) => {
-        if (!isActive) return;
+        if (controller.signal.aborted) return;
         setIsFinished(books.some((book) => book.groupId === groupId));
       })
       .catch(() => {
-        if (!isActive) return;
+        if (controller.signal.aborted) return;
         setIsFinished(false);
       });
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [groupId]);
 
   useEffect(() => {
-    let isActive = true;
+    const controller = new AbortController();
     getUserId()
       .then((id) => {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setCurrentUserId(id);
         }
       })
       .catch(() => {
-        if (isActive) {
+        if (!controller.signal.aborted) {
           setCurrentUserId(null);
         }
       });
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, []);
 
   const loadFeed = useCallback(
-    async (options?: { reset?: boolean; isActive?: { current: boolean } }) => {
+    async (options?: { reset?: boolean; signal?: AbortSignal }) => {
       if (!groupId) return;
-      const isActiveRef = options?.isActive;
+      const signal = options?.signal;
+      const requestId = ++feedRequestRef.current;
+      const isCurrent = () => !signal?.aborted && requestId === feedRequestRef.current;
 
       if (options?.reset) {
         setFeedItems([]);
         setLikedPostIds(new Set());
+        setFeedCursor(null);
       }
       setFeedStatus('loading');
       setFeedError(null);
 
       try {
-        const records = await getGroupRecords(groupId);
-        const sorted = [...records].sort(
-          (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-        const likedSet = new Set<string>();
-        const mapped = await Promise.all(
-          sorted.map(async (record): Promise<FeedItem> => {
-            let comments: FeedComment[] = [];
-            let likeCount = 0;
-            let likedByUser = false;
-
-            try {
-              const recordComments = await getRecordComments(record.id);
-              comments = recordComments.map((comment) => ({
-                id: comment.id,
-                name: comment.userNickname,
-                time: formatRelativeTime(String(comment.createdAt)),
-                text: comment.content,
-              }));
-            } catch {
-              comments = [];
-            }
-
-            try {
-              const cachedLike = await getRecordLikeState(record.id, currentUserId);
-              if (cachedLike) {
-                likedByUser = cachedLike.liked;
-              }
-              const likeResult = await getRecordLikeCount(record.id);
-              likeCount = likeResult.likeCount;
-              if (cachedLike) {
-                await setRecordLikeState(record.id, {
-                  liked: cachedLike.liked,
-                  likeCount,
-                }, currentUserId);
-              }
-            } catch {
-              likeCount = 0;
-            }
-
-            if (likedByUser) {
-              likedSet.add(record.id);
-            }
-
-            const readDate = new Date(record.readDate);
-            const createdDate = Number.isNaN(readDate.getTime())
-              ? new Date(record.createdAt)
-              : readDate;
-
-            return {
-              id: record.id,
-              recordId: record.id,
-              userId: record.userId,
-              userEmoji: record.userProfileEmoji,
-              name: record.userNickname,
-              time: formatRelativeTime(String(record.createdAt)),
-              image: { uri: normalizeUploadUrl(record.imageUrl) },
-              caption: record.comment ?? '',
-              likes: likeCount,
-              comments,
-              createdAt: formatDateKey(createdDate),
-              source: 'remote',
-            };
-          }),
-        );
+        const page = await getGroupRecords(groupId, undefined, { signal });
+        const items = page.items.map(toFeedItem);
 
-        if (isActiveRef && !isActiveRef.current) return;
-        setFeedItems(mapped);
+        if (!isCurrent()) return;
+        setFeedItems(items);
+        setFeedCursor(page.nextCursor);
         setFeedStatus('success');
         setFeedError(null);
-        setLikedPostIds(likedSet);
+        setLikedPostIds(new Set(getLikedRecordIds(page.items)));
       } catch (error) {
-        if (isActiveRef && !isActiveRef.current) return;
+        if (!isCurrent()) return;
         if (options?.reset) {
           setFeedItems([]);
         }
         setFeedStatus('error');
         setFeedError(getErrorMessage(error, '독서 기록을 불러오지 못했어요.'));
       } finally {
-        if (isActiveRef && !isActiveRef.current) return;
-        hasLoadedFeedRef.current = true;
+        if (isCurrent()) {
+          hasLoadedFeedRef.current = true;
+        }
+      }
+    },
+    [groupId],
+  );
+
+  const loadMoreFeed = useCallback(async () => {
+    if (!groupId || !feedCursor || feedStatus !== 'success' || isLoadingMoreFeed) return;
+    const requestId = feedRequestRef.current;
+    const signal = feedSignalRef.current ?? undefined;
+    setIsLoadingMoreFeed(true);
+    try {
+      const page = await getGroupRecords(groupId, { cursor: feedCursor }, { signal });
+      const items = page.items.map(toFeedItem);
+      // A reload started meanwhile owns the list now.
+      if (signal?.aborted || requestId !== feedRequestRef.current) return;
+      setFeedItems((prev) => mergeFeedItems(prev, items));
+      setFeedCursor(page.nextCursor);
+      setLikedPostIds((prev) => new Set([...prev, ...getLikedRecordIds(page.items)]));
+    } catch (error) {
+      if (signal?.aborted || requestId !== feedRequestRef.current) return;
+      Alert.alert('안내', getErrorMessage(error, '독서 기록을 더 불러오지 못했어요.'));
+    } finally {
+      setIsLoadingMoreFeed(false);
+    }
+  }, [feedCursor, feedStatus, groupId, isLoadingMoreFeed]);
+
+  const newestPostedAt = useMemo(() => {
+    if (feedStatus !== 'success') return null;
+    return feedItems.reduce<string | null>((latest, item) => {
+      if (!item.postedAt) return latest;
+      if (latest && new Date(latest).getTime() >= new Date(item.postedAt).getTime()) {
+        return latest;
+      }
+      return item.postedAt;
+    }, null);
+  }, [feedItems, feedStatus]);
+
+  useEffect(() => {
+    newestPostedAtRef.current = newestPostedAt;
+  }, [newestPostedAt]);
+
+  useEffect(() => {
+    likersPostIdRef.current = likersPostId;
+  }, [likersPostId]);
+
+  // Fetches only records created after the newest one on screen, keeping loaded pages intact.
+  const refreshFeed = useCallback(
+    async (options?: { signal?: AbortSignal }) => {
+      if (!groupId) return;
+      const since = newestPostedAtRef.current;
+      const signal = options?.signal;
+      if (!since) {
+        await loadFeed({ reset: false, signal });
+        return;
+      }
+      const requestId = feedRequestRef.current;
+      const isCurrent = () => !signal?.aborted && requestId === feedRequestRef.current;
+      try {
+        const page = await getGroupRecords(groupId, { since }, { signal });
+        const items = page.items.map(toFeedItem);
+        const likedIds = getLikedRecordIds(page.items);
+        if (!isCurrent()) return;
+        if (page.nextCursor) {
+          // More new records than one page: start over from the newest page.
+          setFeedItems(items);
+          setFeedCursor(page.nextCursor);
+          setLikedPostIds(new Set(likedIds));
+          return;
+        }
+        setFeedItems((prev) => {
+          const fresh = new Set(items.map((item) => item.id));
+          return [...items, ...prev.filter((item) => !fresh.has(item.id))];
+        });
+        setLikedPostIds((prev) => new Set([...prev, ...likedIds]));
+      } catch (error) {
+        if (!isCurrent()) return;
+        Alert.alert('안내', getErrorMessage(error, '새 독서 기록을 불러오지 못했어요.'));
+      }
+    },
+    [groupId, loadFeed],
+  );
+
+  const handleOpenPost = useCallback(
+    async (postId: string) => {
+      setSelectedPostId(postId);
+      setLikersPostId(null);
+      setPostCommentsError(null);
+      const target = feedItems.find((item) => item.id === postId);
+      if (!target?.recordId || target.commentsLoaded) return;
+      setLoadingCommentsPostId(postId);
+      try {
+        const comments = await getRecordComments(target.recordId);
+        setFeedItems((prev) =>
+          prev.map((item) =>
+            item.id === postId
+              ? {
+                  ...item,
+                  comments: comments.map(toFeedComment),
+                  commentCount: comments.length,
+                  commentsLoaded: true,
+                }
+              : item,
+          ),
+        );
+      } catch (error) {
+        setPostCommentsError(getErrorMessage(error, '댓글을 불러오지 못했어요.'));
+      } finally {
+        setLoadingCommentsPostId((prev) => (prev === postId ? null : prev));
       }
     },
-    [groupId, currentUserId],
+    [feedItems],
   );
 
+  // Picks up where the user's latest record in this group stopped.
+  const handleOpenUpload = useCallback(async () => {
+    setIsUploadOpen(true);
+    if (!groupId || !currentUserId) return;
+    try {
+      const page = await getGroupRecords(groupId, { userId: currentUserId, limit: 1 });
+      const lastEndPage = page.items[0]?.endPage;
+      const defaultPage = lastEndPage ? String(lastEndPage) : '1';
+      setUploadStartPage((prev) => prev || defaultPage);
+      setUploadEndPage((prev) => prev || (lastEndPage ? defaultPage : ''));
+    } catch {
+      // The inputs simply stay empty; the user can still type the range.
+    }
+  }, [currentUserId, groupId]);
+
+  const handlePullToRefresh = useCallback(async () => {
+    setIsRefreshingFeed(true);
+    try {
+      await refreshFeed();
+    } finally {
+      setIsRefreshingFeed(false);
+    }
+  }, [refreshFeed]);
+
   useEffect(() => {
-    const isActiveRef = { current: true };
+    const controller = new AbortController();
+    const { signal } = controller;
+    feedSignalRef.current = signal;
 
     const load = async () => {
       hasLoadedFeedRef.current = false;
       if (!groupId) {
-        if (!isActiveRef.current) return;
         setSentences([]);
         setFeedItems([]);
         setLikedPostIds(new Set());
@@ -685,61 +1005,33 @@ export default function BookDetailScreen() {
       setReplyInputs({});
       setEditingReplyId(null);
       setEditingReplyText('');
+      setEditingSentenceId(null);
       setFeedCommentText('');
       setCompleteError(null);
       setIsCompleting(false);
 
       const loadSentences = async () => {
         try {
-          const data = await getGroupSentences(groupId);
-          const sorted = [...data].sort(
-            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-          );
-          const mapped = await Promise.all(
-            sorted.map(async (sentence): Promise<SentenceItem> => {
-              let replies: SentenceReply[] = [];
-              try {
-                const comments = await getSentenceComments(sentence.id);
-                replies = comments.map((comment) => ({
-                  id: comment.id,
-                  name: comment.userNickname,
-                  time: formatRelativeTime(String(comment.createdAt)),
-                  text: comment.content,
-                  userId: comment.userId,
-                }));
-              } catch {
-                replies = [];
-              }
-              return {
-                id: sentence.id,
-                page: `p. ${sentence.pageNo}`,
-                text: sentence.content,
-                name: sentence.userNickname,
-                replies,
-                source: 'remote',
-              };
-            }),
-          );
-
-          if (!isActiveRef.current) return;
-          setSentences(mapped);
+          const data = await getGroupSentences(groupId, { signal });
+          if (signal.aborted) return;
+          setSentences(data.map(toSentenceItem));
           setSentencesStatus('success');
           setSentencesError(null);
         } catch (error) {
-          if (!isActiveRef.current) return;
+          if (signal.aborted) return;
           setSentences([]);
           setSentencesStatus('error');
           setSentencesError(getErrorMessage(error, '문장을 불러오지 못했어요.'));
         }
       };
 
-      await Promise.all([loadSentences(), loadFeed({ reset: true, isActive: isActiveRef })]);
+      await Promise.all([loadSentences(), loadFeed({ reset: true, signal })]);
     };
 
     load();
 
     return () => {
-      isActiveRef.current = false;
+      controller.abort();
     };
   }, [groupId, groupStatus, loadFeed]);
 
@@ -748,14 +1040,220 @@ export default function BookDetailScreen() {
       if (!groupId || !hasLoadedFeedRef.current) {
         return undefined;
       }
-      const isActive = { current: true };
-      loadFeed({ reset: false, isActive });
+      const controller = new AbortController();
+      refreshFeed({ signal: controller.signal });
+      return () => {
+        controller.abort();
+      };
+    }, [groupId, refreshFeed]),
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!groupId || !currentUserId) {
+        setMyRecordDates(new Map());
+        return undefined;
+      }
+      const controller = new AbortController();
+      fetchMyRecordDates(groupId, currentUserId, controller.signal)
+        .then((dates) => {
+          if (!controller.signal.aborted) setMyRecordDates(dates);
+        })
+        .catch(() => {
+          // Stamps keep their last known state; the next focus tries again.
+        });
       return () => {
-        isActive.current = false;
+        controller.abort();
       };
-    }, [groupId, loadFeed]),
+    }, [currentUserId, groupId]),
   );
 
+  const addMyRecordDate = useCallback((record: ReadingRecord) => {
+    setMyRecordDates((prev) => new Map(prev).set(record.id, getRecordDateKey(record)));
+  }, []);
+
+  const handleOutboxSent = useCallback((entry: OutboxEntry, data: unknown) => {
+    if (entry.kind === 'sentence') {
+      const item = toSentenceItem(data as Sentence);
+      setSentences((prev) => [item, ...prev.filter((sentence) => sentence.id !== item.id)]);
+      setSentencesStatus('success');
+      setSentencesError(null);
+      return;
+    }
+    if (entry.kind === 'sentenceComment') {
+      const reply = toSentenceReply(data as SentenceComment);
+      setSentences((prev) =>
+        prev.map((sentence) =>
+          sentence.id === entry.scope.sentenceId
+            ? {
+                ...sentence,
+                replies: [...(sentence.replies ?? []), reply],
+                replyCount: sentence.replyCount + 1,
+              }
+            : sentence,
+        ),
+      );
+      return;
+    }
+    if (entry.kind === 'record') {
+      addMyRecordDate(data as ReadingRecord);
+      const item = toFeedItem(data as ReadingRecord);
+      setFeedItems((prev) => [item, ...prev.filter((feedItem) => feedItem.id !== item.id)]);
+      setFeedStatus('success');
+      setFeedError(null);
+      return;
+    }
+    const comment = toFeedComment(data as RecordComment);
+    setFeedItems((prev) =>
+      prev.map((item) =>
+        item.recordId === entry.scope.recordId
+          ? {
+              ...item,
+              comments: [...(item.comments ?? []), comment],
+              commentCount: item.commentCount + 1,
+            }
+          : item,
+      ),
+    );
+  }, [addMyRecordDate]);
+
+  const {
+    entries: outboxEntries,
+    retry: retryOutboxEntry,
+    discard: discardOutboxEntry,
+  } = useOutbox({ groupId, onSent: handleOutboxSent });
+  const pendingAuthorName = profile.nickname || '나';
+
+  const displaySentences = useMemo(() => {
+    const queuedSentences = outboxEntries
+      .filter((entry) => entry.kind === 'sentence')
+      .reverse()
+      .map(
+        (entry): SentenceItem => ({
+          id: entry.id,
+          page: `p. ${String(entry.body.pageNo ?? '')}`,
+          pageNo: Number(entry.body.pageNo ?? 0),
+          text: getOutboxText(entry, 'content'),
+          thought: getOutboxText(entry, 'thought') || null,
+          name: pendingAuthorName,
+          userId: currentUserId,
+          createdAt: entry.createdAt,
+          replies: [],
+          replyCount: 0,
+          repliesLoaded: true,
+          source: 'local',
+          syncStatus: entry.status,
+        }),
+      );
+    const queuedReplies = outboxEntries.filter((entry) => entry.kind === 'sentenceComment');
+    const merged = [...sentences].sort(compareSentenceItems).map((sentence) => {
+      const replies = queuedReplies
+        .filter((entry) => entry.scope.sentenceId === sentence.id)
+        .map(
+          (entry): SentenceReply => ({
+            id: entry.id,
+            name: pendingAuthorName,
+            time: '방금',
+            text: getOutboxText(entry, 'content'),
+            userId: currentUserId,
+            syncStatus: entry.status,
+          }),
+        );
+      return replies.length > 0
+        ? { ...sentence, replies: [...(sentence.replies ?? []), ...replies] }
+        : sentence;
+    });
+    return [...queuedSentences, ...merged];
+  }, [currentUserId, outboxEntries, pendingAuthorName, sentences]);
+
+  const displayFeedItems = useMemo(() => {
+    const queuedRecords = outboxEntries
+      .filter((entry) => entry.kind === 'record')
+      .reverse()
+      .map(
+        (entry): FeedItem => ({
+          id: entry.id,
+          userId: currentUserId,
+          userEmoji: profile.emoji || null,
+          name: pendingAuthorName,
+          time: '방금',
+          image: { uri: entry.imageUpload?.uri ?? getOutboxText(entry, 'imageUrl') },
+          caption: getOutboxText(entry, 'comment'),
+          pageRange: formatPageRange(
+            Number(entry.body.startPage ?? 1),
+            Number(entry.body.endPage ?? 1),
+          ),
+          likes: 0,
+          comments: [],
+          commentCount: 0,
+          commentsLoaded: true,
+          reactionCounts: [],
+          myReaction: null,
+          createdAt: getOutboxText(entry, 'readDate'),
+          source: 'local',
+          syncStatus: entry.status,
+        }),
+      );
+    const queuedComments = outboxEntries.filter((entry) => entry.kind === 'recordComment');
+    const merged = feedItems.map((item) => {
+      const comments = queuedComments
+        .filter((entry) => entry.scope.recordId === item.recordId)
+        .map(
+          (entry): FeedComment => ({
+            id: entry.id,
+            name: pendingAuthorName,
+            time: '방금',
+            text: getOutboxText(entry, 'content'),
+            userId: currentUserId,
+            parentCommentId: getOutboxText(entry, 'parentCommentId') || null,
+            syncStatus: entry.status,
+          }),
+        );
+      return comments.length > 0
+        ? { ...item, comments: [...(item.comments ?? []), ...comments] }
+        : item;
+    });
+    return [...queuedRecords, ...merged];
+  }, [currentUserId, feedItems, outboxEntries, pendingAuthorName, profile.emoji]);
+
+  const handleOutboxItemPress = (entryId: string, status: OutboxStatus) => {
+    const entry = outboxEntries.find((item) => item.id === entryId);
+    const title = status === 'failed' ? '전송 실패' : '전송 대기 중';
+    const message =
+      status === 'failed'
+        ? entry?.lastError ?? '전송에 실패했어요.'
+        : '연결이 돌아오면 자동으로 전송돼요.';
+    Alert.alert(title, message, [
+      { text: '닫기', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: () => {
+          discardOutboxEntry(entryId).catch(() => {});
+        },
+      },
+      {
+        text: '다시 시도',
+        onPress: () => {
+          retryOutboxEntry(entryId).catch(() => {});
+        },
+      },
+    ]);
+  };
+
+  const renderSyncBadge = (entryId: string, status?: OutboxStatus) =>
+    status ? (
+      <Pressable
+        onPress={() => handleOutboxItemPress(entryId, status)}
+        style={[styles.syncBadge, status === 'failed' && styles.syncBadgeFailed]}
+        accessibilityRole="button"
+        hitSlop={6}>
+        <Text style={[styles.syncBadgeText, status === 'failed' && styles.syncBadgeTextFailed]}>
+          {syncStatusLabel[status]}
+        </Text>
+      </Pressable>
+    ) : null;
+
   const bookTitle =
     book?.title ?? group?.bookTitle ?? (bookStatus === 'loading' ? '불러오는 중...' : '');
   const bookAuthor = book?.author ?? '';
@@ -774,6 +1272,7 @@ export default function BookDetailScreen() {
   const groupGoalDate = group?.goalDate ? formatDisplayDate(group.goalDate) : null;
 
   const handleAddSentence = async () => {
+    if (isSubmittingSentence) return;
     const trimmedText = sentenceText.trim();
     const trimmedPage = sentencePage.trim();
 
@@ -785,100 +1284,194 @@ export default function BookDetailScreen() {
       Alert.alert('안내', '페이지를 입력해 주세요.');
       return;
     }
-    const pageNo = Number(trimmedPage);
-    if (!Number.isFinite(pageNo)) {
-      Alert.alert('안내', '올바른 페이지 번호를 입력해 주세요.');
+    const pageError = validateSentencePage(trimmedPage, book?.totalPage);
+    if (pageError) {
+      Alert.alert('안내', pageError);
       return;
     }
+    const pageNo = Number(trimmedPage);
     if (!groupId || !book?.isbn) {
       Alert.alert('안내', '교환독서 정보를 불러온 뒤 등록할 수 있어요.');
       return;
     }
 
+    setIsSubmittingSentence(true);
     try {
-      const created = await createSentence(groupId, {
+      const result = await createSentenceOrQueue(groupId, {
         content: trimmedText,
         pageNo,
+        thought: sentenceThought.trim() || undefined,
         bookIsbn: book.isbn,
       });
-      const nextItem: SentenceItem = {
-        id: created.id,
-        page: `p. ${created.pageNo}`,
-        text: created.content,
-        name: created.userNickname,
-        replies: [],
-        source: 'remote',
-      };
-      setSentences((prev) => [nextItem, ...prev]);
-      setSentencesStatus('success');
-      setSentencesError(null);
+      if (result.status === 'sent') {
+        setSentences((prev) => [toSentenceItem(result.data), ...prev]);
+        setSentencesStatus('success');
+        setSentencesError(null);
+      }
       setSentenceText('');
       setSentencePage('');
+      setSentenceThought('');
       setIsAddingSentence(false);
     } catch (error) {
       Alert.alert('안내', getErrorMessage(error, '문장 등록에 실패했어요.'));
+    } finally {
+      setIsSubmittingSentence(false);
     }
   };
 
-  const handleAddReply = async (sentenceId: string) => {
-    const message = replyInputs[sentenceId]?.trim();
-    if (!message) {
-      Alert.alert('안내', '답글을 입력해 주세요.');
+  const handleStartEditSentence = (sentence: SentenceItem) => {
+    setEditingSentenceId(sentence.id);
+    setEditingSentenceText(sentence.text);
+    setEditingSentencePage(String(sentence.pageNo));
+    setEditingSentenceThought(sentence.thought ?? '');
+  };
+
+  const handleCancelEditSentence = () => {
+    setEditingSentenceId(null);
+    setEditingSentenceText('');
+    setEditingSentencePage('');
+    setEditingSentenceThought('');
+  };
+
+  const handleSaveSentence = async (sentenceId: string) => {
+    const trimmedText = editingSentenceText.trim();
+    const trimmedPage = editingSentencePage.trim();
+    if (!trimmedText) {
+      Alert.alert('안내', '문장을 입력해 주세요.');
       return;
     }
-
-    const target = sentences.find((sentence) => sentence.id === sentenceId);
-    if (!target) {
+    const pageError = validateSentencePage(trimmedPage, book?.totalPage);
+    if (pageError) {
+      Alert.alert('안내', pageError);
       return;
     }
+    const pageNo = Number(trimmedPage);
 
-    if (target.source === 'remote') {
+    try {
+      // An empty string clears the thought; undefined would leave it unchanged.
+      const updated = await updateSentence(sentenceId, {
+        content: trimmedText,
+        pageNo,
+        thought: editingSentenceThought.trim(),
+      });
+      setSentences((prev) =>
+        prev
+          .map((sentence) =>
+            sentence.id === sentenceId
+              ? {
+                  ...sentence,
+                  page: `p. ${updated.pageNo}`,
+                  pageNo: updated.pageNo,
+                  text: updated.content,
+                  thought: updated.thought || null,
+                }
+              : sentence,
+          )
+          .sort(compareSentenceItems),
+      );
+      handleCancelEditSentence();
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '문장 수정에 실패했어요.'));
+    }
+  };
+
+  const handleDeleteSentence = (sentenceId: string) => {
+    Alert.alert('문장 삭제', '이 문장과 답글이 모두 삭제돼요. 삭제할까요?', [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteSentence(sentenceId);
+          } catch (error) {
+            Alert.alert('안내', getErrorMessage(error, '문장 삭제에 실패했어요.'));
+            return;
+          }
+          setSentences((prev) => prev.filter((sentence) => sentence.id !== sentenceId));
+          if (openReplyId === sentenceId) {
+            setOpenReplyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLoadReplies = useCallback(
+    async (sentenceId: string) => {
+      const target = sentences.find((sentence) => sentence.id === sentenceId);
+      if (!target || target.source !== 'remote' || target.repliesLoaded) return;
+      setLoadingRepliesId(sentenceId);
       try {
-        const created = await createSentenceComment(sentenceId, { content: message });
+        const comments = await getSentenceComments(sentenceId);
         setSentences((prev) =>
           prev.map((sentence) =>
             sentence.id === sentenceId
               ? {
                   ...sentence,
-                  replies: [
-                    ...(sentence.replies ?? []),
-                    {
-                      id: created.id,
-                      name: created.userNickname,
-                      time: formatRelativeTime(String(created.createdAt)),
-                      text: created.content,
-                      userId: created.userId,
-                    },
-                  ],
+                  replies: comments.map(toSentenceReply),
+                  replyCount: comments.length,
+                  repliesLoaded: true,
                 }
               : sentence,
           ),
         );
       } catch (error) {
-        Alert.alert('안내', getErrorMessage(error, '답글 등록에 실패했어요.'));
-        return;
+        Alert.alert('안내', getErrorMessage(error, '답글을 불러오지 못했어요.'));
+      } finally {
+        setLoadingRepliesId((prev) => (prev === sentenceId ? null : prev));
       }
-    } else {
-      setSentences((prev) =>
-        prev.map((sentence) =>
-          sentence.id === sentenceId
-            ? {
-                ...sentence,
-                replies: [
-                  ...(sentence.replies ?? []),
-                  {
-                    id: `r-${Date.now()}`,
-                    name: '나',
-                    time: '방금',
-                    text: message,
-                    userId: currentUserId ?? null,
-                  },
-                ],
-              }
-            : sentence,
-        ),
-      );
-    }
+    },
+    [sentences],
+  );
+
+  const handleOpenReply = useCallback(
+    (sentenceId: string) => {
+      setOpenReplyId(sentenceId);
+      handleLoadReplies(sentenceId);
+    },
+    [handleLoadReplies],
+  );
+
+  const handleAddReply = async (sentenceId: string) => {
+    const message = replyInputs[sentenceId]?.trim();
+    if (!message) {
+      Alert.alert('안내', '답글을 입력해 주세요.');
+      return;
+    }
+
+    const target = sentences.find((sentence) => sentence.id === sentenceId);
+    if (!target) {
+      return;
+    }
+
+    // Sentences still in the outbox have no server id to reply to yet.
+    if (target.source !== 'remote' || !groupId) {
+      Alert.alert('안내', '문장이 등록된 뒤 답글을 달 수 있어요.');
+      return;
+    }
+
+    try {
+      const result = await createSentenceCommentOrQueue(groupId, sentenceId, {
+        content: message,
+      });
+      if (result.status === 'sent') {
+        setSentences((prev) =>
+          prev.map((sentence) =>
+            sentence.id === sentenceId
+              ? {
+                  ...sentence,
+                  replies: [...(sentence.replies ?? []), toSentenceReply(result.data)],
+                  replyCount: sentence.replyCount + 1,
+                }
+              : sentence,
+          ),
+        );
+      }
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '답글 등록에 실패했어요.'));
+      return;
+    }
 
     setReplyInputs((prev) => ({ ...prev, [sentenceId]: '' }));
     setOpenReplyId(null);
@@ -978,6 +1571,7 @@ export default function BookDetailScreen() {
                 ? {
                     ...sentence,
                     replies: (sentence.replies ?? []).filter((reply) => reply.id !== replyId),
+                    replyCount: Math.max(0, sentence.replyCount - 1),
                   }
                 : sentence,
             ),
@@ -1047,10 +1641,207 @@ export default function BookDetailScreen() {
     () => [styles.container, { paddingBottom: 160 + insets.bottom }],
     [insets.bottom],
   );
+  // Subscribed through the cache so a new record anywhere refreshes everyone's progress.
+  const { data: groupDetail } = useCachedQuery(
+    groupId ? groupQuery(groupId) : null,
+    '교환독서 정보를 불러오지 못했어요.',
+  );
+  const progressGroup = groupDetail ?? group;
+  const memberProgress = useMemo(
+    () => (progressGroup ? getMemberProgress(progressGroup, progressOrder) : []),
+    [progressGroup, progressOrder],
+  );
+  const averageProgress = useMemo(
+    () => (progressGroup ? getGroupAverageProgress(progressGroup) : null),
+    [progressGroup],
+  );
+  const canManage = progressGroup
+    ? canManageGroup(getGroupRole(progressGroup, currentUserId))
+    : false;
+  // Undefined until the member list arrives, so nothing is hidden on a guess.
+  const myCurrentPage = progressGroup?.members
+    ? (progressGroup.members.find((member) => member.id === currentUserId)?.currentPage ?? null)
+    : undefined;
+  const sentenceAuthors = useMemo(() => {
+    const authors = new Map<string, string>();
+    displaySentences.forEach((sentence) => {
+      if (sentence.userId && !authors.has(sentence.userId)) {
+        authors.set(sentence.userId, sentence.userId === currentUserId ? '나' : sentence.name);
+      }
+    });
+    return Array.from(authors, ([id, name]) => ({ id, name }));
+  }, [currentUserId, displaySentences]);
+  const visibleSentences = useMemo(() => {
+    const filtered = sentenceAuthorFilter
+      ? displaySentences.filter((sentence) => sentence.userId === sentenceAuthorFilter)
+      : displaySentences;
+    return [...filtered].sort(
+      sentenceOrder === 'recent' ? compareSentencesByRecency : compareSentenceItems,
+    );
+  }, [displaySentences, sentenceAuthorFilter, sentenceOrder]);
+  const isSentenceHidden = useCallback(
+    (sentence: SentenceItem) =>
+      myCurrentPage !== undefined &&
+      sentence.userId !== currentUserId &&
+      !revealedSentenceIds.has(sentence.id) &&
+      isSpoilerPage(sentence.pageNo, myCurrentPage),
+    [currentUserId, myCurrentPage, revealedSentenceIds],
+  );
+  const handleRevealSentence = useCallback((sentenceId: string) => {
+    setRevealedSentenceIds((prev) => new Set(prev).add(sentenceId));
+  }, []);
   const sections = useMemo(
-    () => ['header', 'info', 'stamps', 'sentences', 'feed'] as const,
+    () => ['header', 'info', 'progress', 'stamps', 'sentences', 'feed'] as const,
     [],
   );
+  const listRef = useRef<FlatList<(typeof sections)[number]> | null>(null);
+  // Card offsets inside the sentences section, for scrolling to a linked sentence.
+  const sentenceOffsetsRef = useRef(new Map<string, number>());
+  // Feed cards report their position inside the gallery grid, which sits below the feed header.
+  const feedGridOffsetRef = useRef(0);
+  const feedOffsetsRef = useRef(new Map<string, number>());
+  const [feedScrollTargetId, setFeedScrollTargetId] = useState<string | null>(null);
+  const handledLinkRef = useRef<string | null>(null);
+  const fetchingLinkedRecordRef = useRef<string | null>(null);
+
+  const scrollToSection = useCallback(
+    (section: (typeof sections)[number], offset = 0) => {
+      listRef.current?.scrollToIndex({
+        index: sections.indexOf(section),
+        viewOffset: 16 - offset,
+        animated: true,
+      });
+    },
+    [sections],
+  );
+
+  useEffect(() => {
+    if (!highlightedId) return undefined;
+    const timeoutId = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedId]);
+
+  useEffect(() => {
+    if (!linkedSentenceId || sentencesStatus !== 'success') return undefined;
+    if (handledLinkRef.current === `sentence:${linkedSentenceId}`) return undefined;
+    handledLinkRef.current = `sentence:${linkedSentenceId}`;
+    if (!displaySentences.some((item) => item.id === linkedSentenceId)) {
+      Alert.alert('안내', '삭제되었거나 볼 수 없는 문장이에요.');
+      return undefined;
+    }
+    // The linked sentence must be in the list to scroll to it.
+    setSentenceAuthorFilter(null);
+    setHighlightedId(linkedSentenceId);
+    // Wait a frame so the card has reported its layout.
+    const timeoutId = setTimeout(() => {
+      scrollToSection('sentences', sentenceOffsetsRef.current.get(linkedSentenceId) ?? 0);
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [displaySentences, linkedSentenceId, scrollToSection, sentencesStatus]);
+
+  useEffect(() => {
+    if (!linkedRecordId || !groupId || feedStatus !== 'success') return;
+    if (handledLinkRef.current === `record:${linkedRecordId}`) return;
+    if (feedItems.some((item) => item.id === linkedRecordId)) {
+      handledLinkRef.current = `record:${linkedRecordId}`;
+      setHighlightedId(linkedRecordId);
+      setFeedScrollTargetId(linkedRecordId);
+      handleOpenPost(linkedRecordId);
+      return;
+    }
+    // Older than the first page: fetch it on its own and merge it into the feed by date.
+    if (fetchingLinkedRecordRef.current === linkedRecordId) return;
+    fetchingLinkedRecordRef.current = linkedRecordId;
+    getRecord(linkedRecordId)
+      .then((record) => {
+        if (record.groupId !== groupId) throw new Error('다른 교환독서의 기록이에요.');
+        setFeedItems((prev) => mergeFeedItems(prev, [toFeedItem(record)]));
+      })
+      .catch((error) => {
+        handledLinkRef.current = `record:${linkedRecordId}`;
+        Alert.alert('안내', getErrorMessage(error, '삭제되었거나 볼 수 없는 기록이에요.'));
+      });
+  }, [feedItems, feedStatus, groupId, handleOpenPost, linkedRecordId]);
+
+  useEffect(() => {
+    if (!feedScrollTargetId) return undefined;
+    // Wait a frame so the card has reported its layout.
+    const timeoutId = setTimeout(() => {
+      const offset = feedOffsetsRef.current.get(feedScrollTargetId) ?? 0;
+      scrollToSection('feed', feedGridOffsetRef.current + offset);
+      setFeedScrollTargetId(null);
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [feedScrollTargetId, scrollToSection]);
+
+  // Updates the card's counts and, once loaded, the post's list of who reacted.
+  const applyReactionChange = (
+    postId: string,
+    recordId: string,
+    previous: RecordReaction | null,
+    next: RecordReaction | null,
+  ) => {
+    setFeedItems((prev) =>
+      prev.map((item) =>
+        item.id === postId
+          ? {
+              ...item,
+              myReaction: next,
+              reactionCounts: adjustReactionCounts(
+                item.reactionCounts,
+                previous?.emoji ?? null,
+                next?.emoji ?? null,
+              ),
+            }
+          : item,
+      ),
+    );
+    setRecordReactions((prev) => {
+      const loaded = prev[recordId];
+      if (!loaded) return prev;
+      const others = loaded.filter(
+        (reaction) => reaction.id !== previous?.id && reaction.id !== next?.id,
+      );
+      return { ...prev, [recordId]: next ? [...others, next] : others };
+    });
+  };
+
+  // One reaction per user: the same emoji removes it, another emoji switches it.
+  const handleReactionPress = async (postId: string, emoji: string) => {
+    const target = feedItems.find((item) => item.id === postId);
+    if (!target?.recordId) return;
+    if (!currentUserId) {
+      Alert.alert('안내', '로그인이 필요합니다.');
+      return;
+    }
+    if (isReacting) return;
+    const { recordId, myReaction: previous } = target;
+    setIsReacting(true);
+    try {
+      if (previous?.emoji === emoji) {
+        await deleteRecordReaction(previous.id);
+        applyReactionChange(postId, recordId, previous, null);
+      } else if (previous) {
+        const updated = await updateRecordReaction(previous.id, { emoji });
+        applyReactionChange(postId, recordId, previous, updated);
+      } else {
+        const created = await createRecordReaction(recordId, { emoji });
+        applyReactionChange(postId, recordId, null, created);
+      }
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '반응 등록에 실패했어요.'));
+    } finally {
+      setIsReacting(false);
+    }
+  };
+
+  const handleShareLink = useCallback(async (url: string) => {
+    try {
+      await Share.share({ message: url, url });
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '링크를 공유하지 못했어요.'));
+    }
+  }, []);
   const renderSection = useMemo(
     () =>
       ({ item }: { item: (typeof sections)[number] }) => {
@@ -1062,6 +1853,17 @@ export default function BookDetailScreen() {
                   <Text style={styles.backIcon}>‹</Text>
                 </Pressable>
                 <Text style={styles.headerTitle}>교환독서 상세 페이지</Text>
+                {groupId && canManage ? (
+                  <Pressable
+                    onPress={() =>
+                      router.push({ pathname: '/group-admin/[id]', params: { id: groupId } })
+                    }
+                    style={styles.headerAction}
+                    accessibilityRole="button"
+                    accessibilityLabel="그룹 관리">
+                    <Text style={styles.headerActionIcon}>⚙︎</Text>
+                  </Pressable>
+                ) : null}
                 {groupId ? (
                   <Pressable
                     onPress={handleLeaveGroup}
@@ -1167,6 +1969,86 @@ export default function BookDetailScreen() {
           );
         }
 
+        if (item === 'progress') {
+          return (
+            <View style={styles.section}>
+              <View style={styles.sectionHeaderRow}>
+                <Text style={styles.sectionTitle}>멤버별 진도</Text>
+                <View style={styles.weekToggle}>
+                  {(['ahead', 'behind'] as const).map((order) => (
+                    <Pressable
+                      key={order}
+                      onPress={() => setProgressOrder(order)}
+                      style={[
+                        styles.weekToggleButton,
+                        progressOrder === order && styles.weekToggleButtonActive,
+                      ]}
+                      accessibilityRole="button">
+                      <Text
+                        style={[
+                          styles.weekToggleText,
+                          progressOrder === order && styles.weekToggleTextActive,
+                        ]}>
+                        {order === 'ahead' ? '앞선 순' : '뒤처진 순'}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <View style={styles.infoCard}>
+                {!progressGroup ? (
+                  <Text style={styles.emptyText}>진도를 불러오는 중...</Text>
+                ) : !progressGroup.totalPage ? (
+                  <Text style={styles.emptyText}>
+                    책의 전체 쪽수 정보가 없어 진도를 계산할 수 없어요.
+                  </Text>
+                ) : memberProgress.length === 0 ? (
+                  <Text style={styles.emptyText}>멤버 정보를 불러오는 중...</Text>
+                ) : (
+                  <>
+                    {averageProgress !== null ? (
+                      <Text style={styles.progressSummary}>
+                        평균 {formatProgressPercent(averageProgress)} · 총{' '}
+                        {progressGroup.totalPage}쪽
+                      </Text>
+                    ) : null}
+                    {memberProgress.map((member) => (
+                      <View key={member.id} style={styles.progressRow}>
+                        <View style={styles.progressAvatar}>
+                          <Text style={styles.progressAvatarText}>
+                            {member.emoji?.trim() || getEmojiForName(member.nickname || ' ')}
+                          </Text>
+                        </View>
+                        <View style={styles.progressBody}>
+                          <View style={styles.progressHeader}>
+                            <Text style={styles.progressName}>
+                              {member.id === currentUserId
+                                ? `${member.nickname} (나)`
+                                : member.nickname}
+                            </Text>
+                            <Text style={styles.progressValue}>
+                              {formatMemberProgress(member)}
+                            </Text>
+                          </View>
+                          <View style={styles.progressTrack}>
+                            <View
+                              style={[
+                                styles.progressFill,
+                                member.id === currentUserId && styles.progressFillMine,
+                                { width: formatProgressPercent(member.progress) },
+                              ]}
+                            />
+                          </View>
+                        </View>
+                      </View>
+                    ))}
+                  </>
+                )}
+              </View>
+            </View>
+          );
+        }
+
         if (item === 'stamps') {
           return (
             <View style={styles.section}>
@@ -1327,10 +2209,16 @@ export default function BookDetailScreen() {
                       style={styles.sentencePageInput}
                     />
                     <Pressable
-                      style={styles.sentenceAddButton}
+                      style={[
+                        styles.sentenceAddButton,
+                        isSubmittingSentence && styles.sentenceAddButtonDisabled,
+                      ]}
                       onPress={handleAddSentence}
+                      disabled={isSubmittingSentence}
                       accessibilityRole="button">
-                      <Text style={styles.sentenceAddText}>추가</Text>
+                      <Text style={styles.sentenceAddText}>
+                        {isSubmittingSentence ? '추가 중...' : '추가'}
+                      </Text>
                     </Pressable>
                   </View>
                   <TextInput
@@ -1341,24 +2229,185 @@ export default function BookDetailScreen() {
                     multiline
                     style={styles.sentenceTextInput}
                   />
+                  <TextInput
+                    value={sentenceThought}
+                    onChangeText={setSentenceThought}
+                    placeholder="이 문장에 대한 생각 (선택)"
+                    placeholderTextColor={Palette.textTertiary}
+                    multiline
+                    style={[styles.sentenceTextInput, styles.sentenceThoughtInput]}
+                  />
                 </View>
               )}
+              {displaySentences.length > 0 ? (
+                <View style={styles.sentenceToolbar}>
+                  <View style={styles.weekToggle}>
+                    {(['page', 'recent'] as const).map((order) => (
+                      <Pressable
+                        key={order}
+                        onPress={() => setSentenceOrder(order)}
+                        style={[
+                          styles.weekToggleButton,
+                          sentenceOrder === order && styles.weekToggleButtonActive,
+                        ]}
+                        accessibilityRole="button">
+                        <Text
+                          style={[
+                            styles.weekToggleText,
+                            sentenceOrder === order && styles.weekToggleTextActive,
+                          ]}>
+                          {order === 'recent' ? '최신순' : '페이지순'}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    contentContainerStyle={styles.sentenceFilterRow}>
+                    {[{ id: null, name: '전체' }, ...sentenceAuthors].map((author) => (
+                      <Pressable
+                        key={author.id ?? 'all'}
+                        onPress={() => setSentenceAuthorFilter(author.id)}
+                        style={[
+                          styles.sentenceFilterChip,
+                          sentenceAuthorFilter === author.id && styles.sentenceFilterChipActive,
+                        ]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: sentenceAuthorFilter === author.id }}>
+                        <Text
+                          style={[
+                            styles.sentenceFilterText,
+                            sentenceAuthorFilter === author.id && styles.sentenceFilterTextActive,
+                          ]}>
+                          {author.name}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </ScrollView>
+                </View>
+              ) : null}
               {sentencesStatus === 'loading' ? (
                 <Text style={styles.emptyText}>문장을 불러오는 중...</Text>
               ) : sentencesStatus === 'error' ? (
                 <Text style={styles.emptyText}>
                   {sentencesError ?? '문장을 불러올 수 없어요.'}
                 </Text>
-              ) : sentences.length === 0 ? (
+              ) : displaySentences.length === 0 ? (
                 <Text style={styles.emptyText}>아직 등록된 문장이 없어요.</Text>
+              ) : visibleSentences.length === 0 ? (
+                <Text style={styles.emptyText}>이 멤버가 남긴 문장이 없어요.</Text>
               ) : (
-                sentences.map((item) => (
-                  <View key={item.id} style={styles.sentenceCard}>
-                    <View style={styles.pageBadge}>
-                      <Text style={styles.pageBadgeText}>{item.page}</Text>
+                visibleSentences.map((item) => (
+                  <View
+                    key={item.id}
+                    style={[
+                      styles.sentenceCard,
+                      highlightedId === item.id && styles.highlightedCard,
+                    ]}
+                    onLayout={(event) => {
+                      sentenceOffsetsRef.current.set(item.id, event.nativeEvent.layout.y);
+                    }}>
+                    <View style={styles.sentenceBadgeRow}>
+                      <View style={styles.pageBadge}>
+                        <Text style={styles.pageBadgeText}>{item.page}</Text>
+                      </View>
+                      {renderSyncBadge(item.id, item.syncStatus)}
+                      {item.source === 'remote' &&
+                      item.userId === currentUserId &&
+                      editingSentenceId !== item.id ? (
+                        <View style={[styles.replyActions, styles.sentenceActions]}>
+                          <Pressable
+                            style={styles.replyActionButton}
+                            onPress={() => handleStartEditSentence(item)}
+                            accessibilityRole="button">
+                            <Text style={styles.replyActionText}>수정</Text>
+                          </Pressable>
+                          <Pressable
+                            style={styles.replyActionButton}
+                            onPress={() => handleDeleteSentence(item.id)}
+                            accessibilityRole="button">
+                            <Text style={styles.replyActionText}>삭제</Text>
+                          </Pressable>
+                        </View>
+                      ) : null}
                     </View>
-                    <Text style={styles.sentenceText}>{item.text}</Text>
+                    {editingSentenceId === item.id ? (
+                      <View style={styles.sentenceEditCard}>
+                        <TextInput
+                          value={editingSentencePage}
+                          onChangeText={setEditingSentencePage}
+                          placeholder="페이지"
+                          placeholderTextColor={Palette.textTertiary}
+                          keyboardType="number-pad"
+                          style={styles.sentencePageInput}
+                          accessibilityLabel="페이지"
+                        />
+                        <TextInput
+                          value={editingSentenceText}
+                          onChangeText={setEditingSentenceText}
+                          placeholder="인상 깊었던 문장을 입력하세요"
+                          placeholderTextColor={Palette.textTertiary}
+                          multiline
+                          style={[styles.sentenceTextInput, styles.sentenceThoughtInput]}
+                        />
+                        <TextInput
+                          value={editingSentenceThought}
+                          onChangeText={setEditingSentenceThought}
+                          placeholder="이 문장에 대한 생각 (선택)"
+                          placeholderTextColor={Palette.textTertiary}
+                          multiline
+                          style={[styles.sentenceTextInput, styles.sentenceThoughtInput]}
+                        />
+                        <View style={styles.replyEditActions}>
+                          <Pressable
+                            style={styles.replyEditButton}
+                            onPress={() => handleSaveSentence(item.id)}
+                            accessibilityRole="button">
+                            <Text style={styles.replyEditButtonText}>저장</Text>
+                          </Pressable>
+                          <Pressable
+                            style={[styles.replyEditButton, styles.replyEditCancelButton]}
+                            onPress={handleCancelEditSentence}
+                            accessibilityRole="button">
+                            <Text style={[styles.replyEditButtonText, styles.replyEditCancelText]}>
+                              취소
+                            </Text>
+                          </Pressable>
+                        </View>
+                      </View>
+                    ) : isSentenceHidden(item) ? (
+                      // Only a placeholder is rendered, so the quote never reaches the screen.
+                      <Pressable
+                        style={styles.spoilerCover}
+                        onPress={() => handleRevealSentence(item.id)}
+                        accessibilityRole="button"
+                        accessibilityLabel="스포일러 문장 보기">
+                        <Text style={styles.spoilerTitle}>아직 읽지 않은 부분의 문장이에요</Text>
+                        <Text style={styles.spoilerHint}>
+                          {item.replyCount > 0
+                            ? `답글 ${item.replyCount}개도 함께 가려졌어요 · 탭해서 보기`
+                            : '탭해서 보기'}
+                        </Text>
+                      </Pressable>
+                    ) : (
+                      <>
+                        <Text style={styles.sentenceText}>{item.text}</Text>
+                        {item.thought ? (
+                          <Text style={styles.sentenceThought}>{item.thought}</Text>
+                        ) : null}
+                      </>
+                    )}
                     <View style={styles.sentenceMeta}>
+                      {!item.syncStatus ? (
+                        <Pressable
+                          style={styles.sentenceShareButton}
+                          onPress={() => handleShareLink(getSentenceLink(item.id))}
+                          accessibilityRole="button"
+                          accessibilityLabel="문장 링크 공유">
+                          <Text style={styles.sentenceShareText}>링크 공유</Text>
+                        </Pressable>
+                      ) : null}
                       <View style={styles.sentenceAvatar}>
                         <Text style={styles.sentenceAvatarText}>
                           {getEmojiForName(item.name)}
@@ -1366,104 +2415,125 @@ export default function BookDetailScreen() {
                       </View>
                       <Text style={styles.sentenceName}>{item.name}</Text>
                     </View>
-                    <View style={styles.replySection}>
-                      {item.replies && item.replies.length > 0 ? (
-                        item.replies.map((reply) => (
-                          <View key={reply.id} style={styles.replyRow}>
-                            <View style={styles.replyAvatar}>
-                              <Text style={styles.replyAvatarText}>
-                                {getEmojiForName(reply.name)}
-                              </Text>
-                            </View>
-                            <View style={styles.replyBody}>
-                              <View style={styles.replyHeader}>
-                                <View style={styles.replyHeaderLeft}>
-                                  <Text style={styles.replyName}>{reply.name}</Text>
-                                  <Text style={styles.replyTime}>{reply.time}</Text>
-                                </View>
-                                {currentUserId && reply.userId === currentUserId ? (
-                                  <View style={styles.replyActions}>
-                                    <Pressable
-                                      style={styles.replyActionButton}
-                                      onPress={() => handleStartEditReply(reply)}
-                                      accessibilityRole="button">
-                                      <Text style={styles.replyActionText}>수정</Text>
-                                    </Pressable>
-                                    <Pressable
-                                      style={styles.replyActionButton}
-                                      onPress={() => handleDeleteReply(item.id, reply.id)}
-                                      accessibilityRole="button">
-                                      <Text style={styles.replyActionText}>삭제</Text>
-                                    </Pressable>
-                                  </View>
-                                ) : null}
+                    {isSentenceHidden(item) ? null : (
+                      <View style={styles.replySection}>
+                        {!item.repliesLoaded && item.replyCount > item.replies.length ? (
+                          <Pressable
+                            style={styles.replyMoreButton}
+                            onPress={() => handleLoadReplies(item.id)}
+                            disabled={loadingRepliesId === item.id}
+                            accessibilityRole="button">
+                            <Text style={styles.replyMoreText}>
+                              {loadingRepliesId === item.id
+                                ? '답글을 불러오는 중...'
+                                : `답글 ${item.replyCount}개 모두 보기`}
+                            </Text>
+                          </Pressable>
+                        ) : null}
+                        {item.replies && item.replies.length > 0 ? (
+                          item.replies.map((reply) => (
+                            <View key={reply.id} style={styles.replyRow}>
+                              <View style={styles.replyAvatar}>
+                                <Text style={styles.replyAvatarText}>
+                                  {getEmojiForName(reply.name)}
+                                </Text>
                               </View>
-                              {editingReplyId === reply.id ? (
-                                <View style={styles.replyEditRow}>
-                                  <TextInput
-                                    value={editingReplyText}
-                                    onChangeText={setEditingReplyText}
-                                    placeholder="답글을 입력하세요..."
-                                    placeholderTextColor={Palette.textTertiary}
-                                    style={styles.replyEditInput}
-                                  />
-                                  <View style={styles.replyEditActions}>
-                                    <Pressable
-                                      style={styles.replyEditButton}
-                                      onPress={() => handleSaveReply(item.id, reply.id)}
-                                      accessibilityRole="button">
-                                      <Text style={styles.replyEditButtonText}>저장</Text>
-                                    </Pressable>
-                                    <Pressable
-                                      style={[styles.replyEditButton, styles.replyEditCancelButton]}
-                                      onPress={handleCancelEditReply}
-                                      accessibilityRole="button">
-                                      <Text
-                                        style={[
-                                          styles.replyEditButtonText,
-                                          styles.replyEditCancelText,
-                                        ]}>
-                                        취소
-                                      </Text>
-                                    </Pressable>
+                              <View style={styles.replyBody}>
+                                <View style={styles.replyHeader}>
+                                  <View style={styles.replyHeaderLeft}>
+                                    <Text style={styles.replyName}>{reply.name}</Text>
+                                    <Text style={styles.replyTime}>{reply.time}</Text>
+                                    {renderSyncBadge(reply.id, reply.syncStatus)}
                                   </View>
+                                  {currentUserId &&
+                                  reply.userId === currentUserId &&
+                                  !reply.syncStatus ? (
+                                    <View style={styles.replyActions}>
+                                      <Pressable
+                                        style={styles.replyActionButton}
+                                        onPress={() => handleStartEditReply(reply)}
+                                        accessibilityRole="button">
+                                        <Text style={styles.replyActionText}>수정</Text>
+                                      </Pressable>
+                                      <Pressable
+                                        style={styles.replyActionButton}
+                                        onPress={() => handleDeleteReply(item.id, reply.id)}
+                                        accessibilityRole="button">
+                                        <Text style={styles.replyActionText}>삭제</Text>
+                                      </Pressable>
+                                    </View>
+                                  ) : null}
                                 </View>
-                              ) : (
-                                <Text style={styles.replyText}>{reply.text}</Text>
-                              )}
+                                {editingReplyId === reply.id ? (
+                                  <View style={styles.replyEditRow}>
+                                    <TextInput
+                                      value={editingReplyText}
+                                      onChangeText={setEditingReplyText}
+                                      placeholder="답글을 입력하세요..."
+                                      placeholderTextColor={Palette.textTertiary}
+                                      style={styles.replyEditInput}
+                                    />
+                                    <View style={styles.replyEditActions}>
+                                      <Pressable
+                                        style={styles.replyEditButton}
+                                        onPress={() => handleSaveReply(item.id, reply.id)}
+                                        accessibilityRole="button">
+                                        <Text style={styles.replyEditButtonText}>저장</Text>
+                                      </Pressable>
+                                      <Pressable
+                                        style={[
+                                          styles.replyEditButton,
+                                          styles.replyEditCancelButton,
+                                        ]}
+                                        onPress={handleCancelEditReply}
+                                        accessibilityRole="button">
+                                        <Text
+                                          style={[
+                                            styles.replyEditButtonText,
+                                            styles.replyEditCancelText,
+                                          ]}>
+                                          취소
+                                        </Text>
+                                      </Pressable>
+                                    </View>
+                                  </View>
+                                ) : (
+                                  <Text style={styles.replyText}>{reply.text}</Text>
+                                )}
+                              </View>
                             </View>
+                          ))
+                        ) : (
+                          <Text style={styles.replyEmptyText}>첫 번째 답글을 남겨보세요.</Text>
+                        )}
+                        {item.syncStatus ? null : openReplyId === item.id ? (
+                          <View style={styles.replyInputRow}>
+                            <TextInput
+                              value={replyInputs[item.id] ?? ''}
+                              onChangeText={(value) =>
+                                setReplyInputs((prev) => ({ ...prev, [item.id]: value }))
+                              }
+                              placeholder="답글을 입력하세요..."
+                              placeholderTextColor={Palette.textTertiary}
+                              style={styles.replyInput}
+                            />
+                            <Pressable
+                              style={styles.sendButton}
+                              onPress={() => handleAddReply(item.id)}
+                              accessibilityRole="button">
+                              <Text style={styles.sendButtonText}>↗</Text>
+                            </Pressable>
                           </View>
-                        ))
-                      ) : (
-                        <Text style={styles.replyEmptyText}>첫 번째 답글을 남겨보세요.</Text>
-                      )}
-                      {openReplyId === item.id ? (
-                        <View style={styles.replyInputRow}>
-                          <TextInput
-                            value={replyInputs[item.id] ?? ''}
-                            onChangeText={(value) =>
-                              setReplyInputs((prev) => ({ ...prev, [item.id]: value }))
-                            }
-                            placeholder="답글을 입력하세요..."
-                            placeholderTextColor={Palette.textTertiary}
-                            style={styles.replyInput}
-                          />
+                        ) : (
                           <Pressable
-                            style={styles.sendButton}
-                            onPress={() => handleAddReply(item.id)}
+                            style={styles.replyToggleButton}
+                            onPress={() => handleOpenReply(item.id)}
                             accessibilityRole="button">
-                            <Text style={styles.sendButtonText}>↗</Text>
+                            <Text style={styles.replyToggleText}>답글 달기</Text>
                           </Pressable>
-                        </View>
-                      ) : (
-                        <Pressable
-                          style={styles.replyToggleButton}
-                          onPress={() => setOpenReplyId(item.id)}
-                          accessibilityRole="button">
-                          <Text style={styles.replyToggleText}>답글 달기</Text>
-                        </Pressable>
-                      )}
-                    </View>
+                        )}
+                      </View>
+                    )}
                   </View>
                 ))
               )}
@@ -1477,7 +2547,7 @@ export default function BookDetailScreen() {
               <Text style={styles.sectionTitle}>독서 기록 피드</Text>
               <Pressable
                 style={styles.feedUploadButton}
-                onPress={() => setIsUploadOpen(true)}
+                onPress={handleOpenUpload}
                 accessibilityRole="button">
                 <Text style={styles.feedUploadText}>업로드</Text>
               </Pressable>
@@ -1486,21 +2556,75 @@ export default function BookDetailScreen() {
               <Text style={styles.emptyText}>피드를 불러오는 중...</Text>
             ) : feedStatus === 'error' ? (
               <Text style={styles.emptyText}>{feedError ?? '피드를 불러올 수 없어요.'}</Text>
-            ) : feedItems.length === 0 ? (
+            ) : displayFeedItems.length === 0 ? (
               <Text style={styles.emptyText}>등록된 기록이 없어요.</Text>
             ) : (
-              <View style={styles.galleryGrid}>
-                {feedItems.map((item) => (
+              <View
+                style={styles.galleryGrid}
+                onLayout={(event) => {
+                  feedGridOffsetRef.current = event.nativeEvent.layout.y;
+                }}>
+                {displayFeedItems.map((item) => (
                   <Pressable
                     key={item.id}
-                    style={[styles.galleryItem, { width: galleryCardSize }]}
-                    onPress={() => setSelectedPostId(item.id)}
+                    style={[
+                      styles.galleryItem,
+                      { width: galleryCardSize },
+                      highlightedId === item.id && styles.highlightedCard,
+                    ]}
+                    onLayout={(event) => {
+                      feedOffsetsRef.current.set(item.id, event.nativeEvent.layout.y);
+                    }}
+                    onPress={() =>
+                      item.syncStatus
+                        ? handleOutboxItemPress(item.id, item.syncStatus)
+                        : handleOpenPost(item.id)
+                    }
                     accessibilityRole="button">
                     <Image source={item.image} style={styles.galleryImage} />
+                    <View style={styles.galleryPageBadge}>
+                      <Text style={styles.galleryPageText}>{item.pageRange}</Text>
+                    </View>
+                    {item.syncStatus ? (
+                      <View style={styles.gallerySyncBadge}>
+                        {renderSyncBadge(item.id, item.syncStatus)}
+                      </View>
+                    ) : (
+                      <View style={styles.galleryReactionBar}>
+                        {orderReactionCounts(item.reactionCounts).map(({ emoji, count }) => (
+                          <Pressable
+                            key={emoji}
+                            onPress={() => handleReactionPress(item.id, emoji)}
+                            disabled={isReacting}
+                            style={[
+                              styles.galleryReactionChip,
+                              item.myReaction?.emoji === emoji && styles.galleryReactionChipActive,
+                            ]}
+                            accessibilityRole="button"
+                            accessibilityLabel={`${emoji} 반응 ${count}개`}
+                            accessibilityState={{ selected: item.myReaction?.emoji === emoji }}>
+                            <Text style={styles.galleryReactionText}>
+                              {emoji} {count}
+                            </Text>
+                          </Pressable>
+                        ))}
+                        {/* The full picker and who reacted live in the post view. */}
+                        <Pressable
+                          onPress={() => handleOpenPost(item.id)}
+                          style={styles.galleryReactionChip}
+                          accessibilityRole="button"
+                          accessibilityLabel="반응 남기기">
+                          <Text style={styles.galleryReactionText}>＋</Text>
+                        </Pressable>
+                      </View>
+                    )}
                   </Pressable>
                 ))}
               </View>
             )}
+            {isLoadingMoreFeed ? (
+              <ActivityIndicator style={styles.feedLoadingMore} color={Palette.textTertiary} />
+            ) : null}
           </View>
         );
       },
@@ -1513,7 +2637,8 @@ export default function BookDetailScreen() {
       bookTag,
       bookTitle,
       completeError,
-      feedItems,
+      displayFeedItems,
+      displaySentences,
       feedError,
       feedStatus,
       galleryCardSize,
@@ -1523,9 +2648,19 @@ export default function BookDetailScreen() {
       groupGoalDate,
       groupStartDate,
       groupStatus,
+      canManage,
+      handleShareLink,
+      highlightedId,
       handleCompleteReading,
       handleLeaveGroup,
+      handleOutboxItemPress,
+      handleOpenPost,
+      handleReactionPress,
+      isReacting,
+      renderSyncBadge,
       handleAddReply,
+      handleLoadReplies,
+      handleOpenReply,
       handleCancelEditReply,
       handleDeleteReply,
       handleSaveReply,
@@ -1533,23 +2668,44 @@ export default function BookDetailScreen() {
       handleAddSentence,
       insets.bottom,
       isCompleting,
+      isLoadingMoreFeed,
+      loadingRepliesId,
       isLeaving,
       isAddingSentence,
+      isSubmittingSentence,
       currentUserId,
       editingReplyId,
       editingReplyText,
       myEmoji,
       memberAvatars,
+      memberProgress,
+      averageProgress,
+      progressGroup,
+      progressOrder,
       openReplyId,
       replyInputs,
       router,
       sentencePage,
       sentenceText,
-      sentences,
+      sentenceThought,
+      sentenceAuthors,
+      sentenceAuthorFilter,
+      sentenceOrder,
+      visibleSentences,
+      isSentenceHidden,
+      handleRevealSentence,
+      editingSentenceId,
+      editingSentencePage,
+      editingSentenceText,
+      editingSentenceThought,
+      handleStartEditSentence,
+      handleCancelEditSentence,
+      handleSaveSentence,
+      handleDeleteSentence,
       sentencesError,
       sentencesStatus,
       selectedWeek,
-      setIsUploadOpen,
+      handleOpenUpload,
       setOpenReplyId,
       setSelectedPostId,
       setSelectedWeek,
@@ -1565,9 +2721,45 @@ export default function BookDetailScreen() {
   );
   const gallery = useMemo(() => feedItems.map((item) => item.image), [feedItems]);
   const selectedPost = useMemo(
-    () => (selectedPostId ? feedItems.find((item) => item.id === selectedPostId) ?? null : null),
-    [feedItems, selectedPostId],
+    () =>
+      selectedPostId ? displayFeedItems.find((item) => item.id === selectedPostId) ?? null : null,
+    [displayFeedItems, selectedPostId],
+  );
+  const selectedRecordId =
+    selectedPost?.recordId && !selectedPost.syncStatus ? selectedPost.recordId : null;
+  const selectedReactions = useMemo(
+    () => (selectedRecordId ? recordReactions[selectedRecordId] ?? [] : []),
+    [recordReactions, selectedRecordId],
   );
+  const selectedReactionGroups = useMemo(
+    () => groupReactions(selectedReactions),
+    [selectedReactions],
+  );
+  const myReaction = selectedPost?.myReaction ?? null;
+
+  useEffect(() => {
+    if (!selectedRecordId) {
+      setReactionStatus('idle');
+      return undefined;
+    }
+    const controller = new AbortController();
+    setReactionStatus('loading');
+    getRecordReactions(selectedRecordId, { signal: controller.signal })
+      .then((items) => {
+        if (controller.signal.aborted) return;
+        setRecordReactions((prev) => ({ ...prev, [selectedRecordId]: items }));
+        setReactionStatus('success');
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setReactionStatus('error');
+        }
+      });
+    return () => {
+      controller.abort();
+    };
+  }, [selectedRecordId]);
+
   const selectedUploadSource = useMemo(() => {
     if (selectedUploadAsset?.uri) {
       return { uri: selectedUploadAsset.uri };
@@ -1578,7 +2770,144 @@ export default function BookDetailScreen() {
     return null;
   }, [selectedUploadAsset, selectedUploadImage]);
 
+  const resetUploadForm = () => {
+    setSelectedUploadImage(null);
+    setSelectedUploadAsset(null);
+    setUploadCaption('');
+    setUploadStartPage('');
+    setUploadEndPage('');
+    setEditingPostId(null);
+    setIsUploadOpen(false);
+  };
+
+  // A cancelled new post keeps its draft; a cancelled edit drops the record's values.
+  const handleCancelUpload = () => {
+    if (editingPostId) {
+      resetUploadForm();
+      return;
+    }
+    setIsUploadOpen(false);
+  };
+
+  const handleStartEditRecord = (post: FeedItem) => {
+    setSelectedPostId(null);
+    setLikersPostId(null);
+    setEditingPostId(post.id);
+    setUploadCaption(post.caption);
+    setUploadStartPage(post.startPage ? String(post.startPage) : '');
+    setUploadEndPage(post.endPage ? String(post.endPage) : '');
+    setSelectedUploadImage(post.image);
+    setSelectedUploadAsset(null);
+    setIsUploadOpen(true);
+  };
+
+  const handleDeleteRecord = (post: FeedItem) => {
+    if (!post.recordId) return;
+    const recordId = post.recordId;
+    Alert.alert('기록 삭제', '이 기록과 댓글이 모두 삭제돼요. 삭제할까요?', [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteRecord(recordId);
+          } catch (error) {
+            Alert.alert('안내', getErrorMessage(error, '기록 삭제에 실패했어요.'));
+            return;
+          }
+          setSelectedPostId(null);
+          setLikersPostId(null);
+          setFeedItems((prev) => prev.filter((item) => item.id !== post.id));
+          setMyRecordDates((prev) => {
+            const next = new Map(prev);
+            next.delete(recordId);
+            return next;
+          });
+          setLikedPostIds((prev) => {
+            const next = new Set(prev);
+            next.delete(post.id);
+            return next;
+          });
+        },
+      },
+    ]);
+  };
+
+  const handleOpenRecordActions = (post: FeedItem) => {
+    Alert.alert('내 기록', undefined, [
+      { text: '수정', onPress: () => handleStartEditRecord(post) },
+      { text: '삭제', style: 'destructive', onPress: () => handleDeleteRecord(post) },
+      { text: '취소', style: 'cancel' },
+    ]);
+  };
+
+  const handleSaveRecordEdit = async (postId: string) => {
+    const target = feedItems.find((item) => item.id === postId);
+    if (!target?.recordId || isSavingRecord) return;
+    if (!selectedUploadImage && !selectedUploadAsset) {
+      Alert.alert('안내', '사진을 선택해 주세요.');
+      return;
+    }
+    if (!uploadCaption.trim()) {
+      Alert.alert('안내', '사진과 글을 모두 입력해 주세요.');
+      return;
+    }
+    const startPage = Number(uploadStartPage.trim());
+    const endPage = Number(uploadEndPage.trim());
+    if (!uploadStartPage.trim() || !uploadEndPage.trim()) {
+      Alert.alert('안내', '읽은 페이지를 입력해 주세요.');
+      return;
+    }
+    const pageError = validatePageRange(startPage, endPage, book?.totalPage);
+    if (pageError) {
+      Alert.alert('안내', pageError);
+      return;
+    }
+
+    setIsSavingRecord(true);
+    try {
+      // Only a newly picked photo goes through the upload endpoint; edits need a connection.
+      const imageUrl = selectedUploadAsset?.uri
+        ? await uploadImage({
+            uri: selectedUploadAsset.uri,
+            name: selectedUploadAsset.fileName,
+            mimeType: selectedUploadAsset.mimeType,
+          })
+        : resolveImageUrl(selectedUploadImage, null);
+      const record = await updateRecord(target.recordId, {
+        startPage,
+        endPage,
+        comment: uploadCaption.trim(),
+        imageUrl:
+          imageUrl && imageUrl !== resolveImageUrl(target.image, null) ? imageUrl : undefined,
+      });
+      setFeedItems((prev) =>
+        prev.map((item) =>
+          item.id === postId
+            ? {
+                ...toFeedItem(record),
+                comments: item.comments,
+                commentsLoaded: item.commentsLoaded,
+              }
+            : item,
+        ),
+      );
+      resetUploadForm();
+      setSelectedPostId(postId);
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '기록 수정에 실패했어요.'));
+    } finally {
+      setIsSavingRecord(false);
+    }
+  };
+
   const handleUploadFeed = async () => {
+    if (isSavingRecord) return;
+    if (editingPostId) {
+      handleSaveRecordEdit(editingPostId);
+      return;
+    }
     if (!selectedUploadImage && !selectedUploadAsset) {
       Alert.alert('안내', '사진을 선택해 주세요.');
       return;
@@ -1593,100 +2922,128 @@ export default function BookDetailScreen() {
       return;
     }
 
-    let imageUrl: string | null = null;
-    if (selectedUploadAsset?.uri) {
-      try {
-        imageUrl = await uploadImage({
+    const startPage = Number(uploadStartPage.trim());
+    const endPage = Number(uploadEndPage.trim());
+    if (!uploadStartPage.trim() || !uploadEndPage.trim()) {
+      Alert.alert('안내', '읽은 페이지를 입력해 주세요.');
+      return;
+    }
+    const pageError = validatePageRange(startPage, endPage, book.totalPage);
+    if (pageError) {
+      Alert.alert('안내', pageError);
+      return;
+    }
+
+    const imageUpload = selectedUploadAsset?.uri
+      ? {
           uri: selectedUploadAsset.uri,
           name: selectedUploadAsset.fileName,
           mimeType: selectedUploadAsset.mimeType,
-        });
-      } catch (error) {
-        /*
-        Alert.alert(
-          '?ˆë‚´',
-          getErrorMessage(error, '?´ë?ì§€ ?…ë¡œ?œì— ?¤íŒ¨?ˆì–´??'),
-        );
-        */
-        Alert.alert('Notice', getErrorMessage(error, 'Image upload failed.'));
-        return;
-      }
-    } else {
-      imageUrl = resolveImageUrl(selectedUploadImage, null);
-    }
-    if (!imageUrl) {
+        }
+      : undefined;
+    const imageUrl = imageUpload ? undefined : resolveImageUrl(selectedUploadImage, null);
+    if (!imageUpload && !imageUrl) {
       Alert.alert('안내', '이미지 주소를 불러올 수 없어요. 다시 선택해 주세요.');
       return;
     }
 
-    const submit = async () => {
-      try {
-        await createRecord(groupId, {
+    // Every send gets a new Idempotency-Key, so a second tap mid-upload would post twice.
+    setIsSavingRecord(true);
+    try {
+      // Photos taken offline are uploaded by the outbox once the connection is back.
+      const result = await createRecordOrQueue(
+        groupId,
+        {
           readDate: formatDateKey(new Date()),
-          startPage: 1,
-          endPage: 1,
+          startPage,
+          endPage,
           comment: uploadCaption.trim(),
-          imageUrl,
+          imageUrl: imageUrl ?? undefined,
           bookIsbn: book.isbn,
-        });
-        await loadFeed({ reset: true });
-        setSelectedUploadImage(null);
-        setSelectedUploadAsset(null);
-        setUploadCaption('');
-        setIsUploadOpen(false);
-      } catch (error) {
-        Alert.alert('안내', getErrorMessage(error, '독서 기록 업로드에 실패했어요.'));
+        },
+        imageUpload,
+      );
+      if (result.status === 'sent') {
+        addMyRecordDate(result.data);
+        await refreshFeed();
       }
-    };
+      resetUploadForm();
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '독서 기록 업로드에 실패했어요.'));
+    } finally {
+      setIsSavingRecord(false);
+    }
+  };
 
-    submit();
+  const applyLikeState = (postId: string, liked: boolean, likeCount: number) => {
+    setLikedPostIds((prev) => {
+      const next = new Set(prev);
+      if (liked) {
+        next.add(postId);
+      } else {
+        next.delete(postId);
+      }
+      return next;
+    });
+    setFeedItems((items) =>
+      items.map((item) => (item.id === postId ? { ...item, likes: likeCount } : item)),
+    );
   };
 
+  // Flips the heart right away and puts it back if the server rejects the toggle.
   const handleToggleLike = async (postId: string) => {
     const target = feedItems.find((item) => item.id === postId);
-    if (!target?.recordId) {
-      setLikedPostIds((prev) => {
-        const next = new Set(prev);
-        const isLiked = next.has(postId);
-        if (isLiked) {
-          next.delete(postId);
-        } else {
-          next.add(postId);
-        }
-        setFeedItems((items) =>
-          items.map((item) =>
-            item.id === postId
-              ? { ...item, likes: Math.max(0, item.likes + (isLiked ? -1 : 1)) }
-              : item,
-          ),
-        );
-        return next;
-      });
+    if (!target?.recordId || pendingLikeIdsRef.current.has(postId)) {
       return;
     }
 
+    const wasLiked = likedPostIds.has(postId);
+    const previousCount = target.likes;
+    pendingLikeIdsRef.current.add(postId);
+    applyLikeState(postId, !wasLiked, Math.max(0, previousCount + (wasLiked ? -1 : 1)));
+
     try {
       const result = await toggleRecordLike(target.recordId);
-      setLikedPostIds((prev) => {
-        const next = new Set(prev);
-        if (result.liked) {
-          next.add(postId);
-        } else {
-          next.delete(postId);
-        }
-        return next;
-      });
-      setFeedItems((items) =>
-        items.map((item) =>
-          item.id === postId ? { ...item, likes: result.likeCount } : item,
-        ),
-      );
-      await setRecordLikeState(target.recordId, result, currentUserId);
+      applyLikeState(postId, result.liked, result.likeCount);
+      if (likersPostId === postId) {
+        loadLikers(postId, target.recordId);
+      }
     } catch (error) {
+      applyLikeState(postId, wasLiked, previousCount);
       Alert.alert('안내', getErrorMessage(error, '좋아요 처리에 실패했어요.'));
+    } finally {
+      pendingLikeIdsRef.current.delete(postId);
+    }
+  };
+
+  const loadLikers = async (postId: string, recordId: string) => {
+    setLikersStatus('loading');
+    setLikersError(null);
+    try {
+      const summary = await getRecordLikeCount(recordId);
+      if (likersPostIdRef.current !== postId) return;
+      setLikers(summary.likers);
+      setLikersStatus('success');
+      if (!pendingLikeIdsRef.current.has(postId)) {
+        applyLikeState(postId, summary.likedByMe, summary.likeCount);
+      }
+    } catch (error) {
+      if (likersPostIdRef.current !== postId) return;
+      setLikers([]);
+      setLikersStatus('error');
+      setLikersError(getErrorMessage(error, '좋아요 목록을 불러오지 못했어요.'));
     }
   };
 
+  const handleOpenLikers = (postId: string) => {
+    const target = feedItems.find((item) => item.id === postId);
+    if (!target?.recordId) return;
+    setLikersPostId(postId);
+    likersPostIdRef.current = postId;
+    setLikers([]);
+    loadLikers(postId, target.recordId);
+  };
+
   const handlePickPhoto = async () => {
     const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (!permission.granted) {
@@ -1725,6 +3082,25 @@ export default function BookDetailScreen() {
     }
   };
 
+  const activeReplyTarget =
+    commentReplyTarget?.postId === selectedPostId ? commentReplyTarget : null;
+
+  // Replies to a reply join the same thread and mention the person being answered.
+  const handleStartCommentReply = (comment: FeedComment) => {
+    if (!selectedPostId) return;
+    setCommentReplyTarget({
+      postId: selectedPostId,
+      commentId: comment.parentCommentId ?? comment.id,
+      name: comment.name,
+    });
+    setFeedCommentText(`@${comment.name} `);
+  };
+
+  const handleCancelCommentReply = () => {
+    setCommentReplyTarget(null);
+    setFeedCommentText('');
+  };
+
   const handleAddFeedComment = async () => {
     if (!selectedPostId || !feedCommentText.trim()) {
       Alert.alert('안내', '댓글을 입력해 주세요.');
@@ -1732,53 +3108,214 @@ export default function BookDetailScreen() {
     }
     const message = feedCommentText.trim();
     const target = feedItems.find((item) => item.id === selectedPostId);
+    const parentCommentId = activeReplyTarget?.commentId;
 
     if (!target) {
       return;
     }
 
-    if (target.source === 'remote' && target.recordId) {
-      try {
-        const created = await createRecordComment(target.recordId, { content: message });
+    // Records still in the outbox have no server id to comment on yet.
+    if (target.source !== 'remote' || !target.recordId || !groupId) {
+      Alert.alert('안내', '기록이 업로드된 뒤 댓글을 달 수 있어요.');
+      return;
+    }
+
+    try {
+      const result = await createRecordCommentOrQueue(groupId, target.recordId, {
+        content: message,
+        parentCommentId,
+      });
+      if (result.status === 'sent') {
         setFeedItems((prev) =>
           prev.map((item) =>
             item.id === selectedPostId
               ? {
                   ...item,
-                  comments: [
-                    ...(item.comments ?? []),
-                    {
-                      id: created.id,
-                      name: created.userNickname,
-                      time: formatRelativeTime(String(created.createdAt)),
-                      text: created.content,
-                    },
-                  ],
+                  comments: [...(item.comments ?? []), toFeedComment(result.data)],
+                  commentCount: item.commentCount + 1,
                 }
               : item,
           ),
         );
+      }
+    } catch (error) {
+      Alert.alert('안내', getErrorMessage(error, '댓글 등록에 실패했어요.'));
+      return;
+    }
+
+    setFeedCommentText('');
+    setCommentReplyTarget(null);
+  };
+
+  const handleStartEditComment = (comment: FeedComment) => {
+    setEditingCommentId(comment.id);
+    setEditingCommentText(comment.text);
+  };
+
+  const handleCancelEditComment = () => {
+    setEditingCommentId(null);
+    setEditingCommentText('');
+  };
+
+  const handleSaveComment = async (postId: string, commentId: string) => {
+    const message = editingCommentText.trim();
+    if (!message) {
+      Alert.alert('안내', '댓글을 입력해 주세요.');
+      return;
+    }
+
+    const target = feedItems.find((item) => item.id === postId);
+    if (!target) {
+      return;
+    }
+
+    let text = message;
+    if (target.source === 'remote') {
+      try {
+        const updated = await updateRecordComment(commentId, { content: message });
+        text = updated.content;
       } catch (error) {
-        Alert.alert('안내', getErrorMessage(error, '댓글 등록에 실패했어요.'));
+        Alert.alert('안내', getErrorMessage(error, '댓글 수정에 실패했어요.'));
         return;
       }
-    } else {
-      setFeedItems((prev) =>
-        prev.map((item) =>
-          item.id === selectedPostId
-            ? {
-                ...item,
-                comments: [
-                  ...(item.comments ?? []),
-                  { id: `fc-${Date.now()}`, name: '나', time: '방금', text: message },
-                ],
-              }
-            : item,
-        ),
-      );
     }
 
-    setFeedCommentText('');
+    setFeedItems((prev) =>
+      prev.map((item) =>
+        item.id === postId
+          ? {
+              ...item,
+              comments: item.comments.map((comment) =>
+                comment.id === commentId ? { ...comment, text } : comment,
+              ),
+            }
+          : item,
+      ),
+    );
+    setEditingCommentId(null);
+    setEditingCommentText('');
+  };
+
+  const handleDeleteComment = (postId: string, commentId: string) => {
+    Alert.alert('댓글 삭제', '이 댓글을 삭제할까요? 달린 답글도 함께 삭제돼요.', [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: async () => {
+          const target = feedItems.find((item) => item.id === postId);
+          if (!target) {
+            return;
+          }
+
+          if (target.source === 'remote') {
+            try {
+              await deleteRecordComment(commentId);
+            } catch (error) {
+              Alert.alert('안내', getErrorMessage(error, '댓글 삭제에 실패했어요.'));
+              return;
+            }
+          }
+
+          setFeedItems((prev) =>
+            prev.map((item) => {
+              if (item.id !== postId) return item;
+              const comments = item.comments.filter(
+                (comment) => comment.id !== commentId && comment.parentCommentId !== commentId,
+              );
+              const removed = item.comments.length - comments.length;
+              return {
+                ...item,
+                comments,
+                commentCount: Math.max(0, item.commentCount - removed),
+              };
+            }),
+          );
+          if (commentReplyTarget?.commentId === commentId) {
+            handleCancelCommentReply();
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderFeedComment = (postId: string, comment: FeedComment, isReply: boolean) => {
+    const { mention, rest } = splitMention(comment.text);
+    const isMine = Boolean(currentUserId && comment.userId === currentUserId);
+    return (
+      <View key={comment.id} style={[styles.replyRow, isReply && styles.commentReplyRow]}>
+        <View style={styles.replyAvatar}>
+          <Text style={styles.replyAvatarText}>{getEmojiForName(comment.name)}</Text>
+        </View>
+        <View style={styles.replyBody}>
+          <View style={styles.replyHeader}>
+            <View style={styles.replyHeaderLeft}>
+              <Text style={styles.replyName}>{comment.name}</Text>
+              <Text style={styles.replyTime}>{comment.time}</Text>
+              {renderSyncBadge(comment.id, comment.syncStatus)}
+            </View>
+            {comment.syncStatus ? null : (
+              <View style={styles.replyActions}>
+                <Pressable
+                  style={styles.replyActionButton}
+                  onPress={() => handleStartCommentReply(comment)}
+                  accessibilityRole="button">
+                  <Text style={styles.replyActionText}>답글</Text>
+                </Pressable>
+                {isMine ? (
+                  <>
+                    <Pressable
+                      style={styles.replyActionButton}
+                      onPress={() => handleStartEditComment(comment)}
+                      accessibilityRole="button">
+                      <Text style={styles.replyActionText}>수정</Text>
+                    </Pressable>
+                    <Pressable
+                      style={styles.replyActionButton}
+                      onPress={() => handleDeleteComment(postId, comment.id)}
+                      accessibilityRole="button">
+                      <Text style={styles.replyActionText}>삭제</Text>
+                    </Pressable>
+                  </>
+                ) : null}
+              </View>
+            )}
+          </View>
+          {editingCommentId === comment.id ? (
+            <View style={styles.replyEditRow}>
+              <TextInput
+                value={editingCommentText}
+                onChangeText={setEditingCommentText}
+                placeholder="댓글을 입력하세요..."
+                placeholderTextColor={Palette.textTertiary}
+                style={styles.replyEditInput}
+              />
+              <View style={styles.replyEditActions}>
+                <Pressable
+                  style={styles.replyEditButton}
+                  onPress={() => handleSaveComment(postId, comment.id)}
+                  accessibilityRole="button">
+                  <Text style={styles.replyEditButtonText}>저장</Text>
+                </Pressable>
+                <Pressable
+                  style={[styles.replyEditButton, styles.replyEditCancelButton]}
+                  onPress={handleCancelEditComment}
+                  accessibilityRole="button">
+                  <Text style={[styles.replyEditButtonText, styles.replyEditCancelText]}>
+                    취소
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          ) : (
+            <Text style={styles.replyText}>
+              {mention ? <Text style={styles.mentionText}>{mention} </Text> : null}
+              {rest}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
   };
 
   return (
@@ -1789,6 +3326,7 @@ export default function BookDetailScreen() {
       <SafeAreaView style={styles.safeArea}>
         <Stack.Screen options={{ headerShown: false }} />
         <FlatList
+          ref={listRef}
           data={sections}
           keyExtractor={(item) => item}
           renderItem={renderSection}
@@ -1798,6 +3336,14 @@ export default function BookDetailScreen() {
           showsVerticalScrollIndicator={false}
           removeClippedSubviews={Platform.OS === 'android'}
           onScrollBeginDrag={Keyboard.dismiss}
+          onScrollToIndexFailed={({ averageItemLength, index }) => {
+            listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: true });
+          }}
+          onEndReached={loadMoreFeed}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshingFeed} onRefresh={handlePullToRefresh} />
+          }
         />
           {selectedPostId !== null && (
             <Modal visible transparent animationType="fade">
@@ -1830,8 +3376,21 @@ export default function BookDetailScreen() {
                         </View>
                         <View style={styles.previewUserMeta}>
                           <Text style={styles.previewUserName}>{selectedPost.name}</Text>
-                          <Text style={styles.previewUserTime}>{selectedPost.time}</Text>
+                          <Text style={styles.previewUserTime}>
+                            {selectedPost.time} · {selectedPost.pageRange}
+                          </Text>
                         </View>
+                        {selectedPost.recordId &&
+                        !selectedPost.syncStatus &&
+                        selectedPost.userId === currentUserId ? (
+                          <Pressable
+                            style={styles.previewMoreButton}
+                            onPress={() => handleOpenRecordActions(selectedPost)}
+                            accessibilityRole="button"
+                            accessibilityLabel="내 기록 관리">
+                            <Text style={styles.previewMoreText}>⋯</Text>
+                          </Pressable>
+                        ) : null}
                       </View>
                     )}
                     {selectedPost && (
@@ -1856,35 +3415,108 @@ export default function BookDetailScreen() {
                               {likedPostIds.has(selectedPost.id) ? '♥' : '♡'}
                             </Text>
                           </Pressable>
-                          <Text style={styles.feedMetaText}>좋아요 {selectedPost.likes}</Text>
+                          <Pressable
+                            onPress={() => handleOpenLikers(selectedPost.id)}
+                            disabled={selectedPost.likes === 0 || Boolean(selectedPost.syncStatus)}
+                            accessibilityRole="button"
+                            accessibilityLabel="좋아요한 사람 보기">
+                            <Text style={styles.feedMetaText}>좋아요 {selectedPost.likes}</Text>
+                          </Pressable>
+                          {selectedPost.recordId && !selectedPost.syncStatus ? (
+                            <Pressable
+                              style={styles.feedShareButton}
+                              onPress={() => handleShareLink(getRecordLink(selectedPost.id))}
+                              accessibilityRole="button"
+                              accessibilityLabel="기록 링크 공유">
+                              <Text style={styles.feedMetaText}>링크 공유</Text>
+                            </Pressable>
+                          ) : null}
                         </View>
+                        {selectedRecordId ? (
+                          <View style={styles.reactionSection}>
+                            {selectedReactionGroups.length > 0 ? (
+                              selectedReactionGroups.map((reactionGroup) => (
+                                <View key={reactionGroup.emoji} style={styles.reactionSummaryRow}>
+                                  <Text style={styles.reactionSummaryEmoji}>
+                                    {reactionGroup.emoji} {reactionGroup.reactions.length}
+                                  </Text>
+                                  <Text style={styles.reactionSummaryNames} numberOfLines={1}>
+                                    {reactionGroup.reactions
+                                      .map((reaction) =>
+                                        reaction.userId === currentUserId
+                                          ? '나'
+                                          : reaction.userNickname,
+                                      )
+                                      .join(', ')}
+                                  </Text>
+                                </View>
+                              ))
+                            ) : (
+                              <Text style={styles.reactionEmpty}>
+                                {reactionStatus === 'loading'
+                                  ? '반응을 불러오는 중...'
+                                  : reactionStatus === 'error'
+                                    ? '반응을 불러오지 못했어요.'
+                                    : '아직 반응이 없어요.'}
+                              </Text>
+                            )}
+                            <View style={styles.reactionButtons}>
+                              {reactionOptions.map((emoji) => (
+                                <Pressable
+                                  key={emoji}
+                                  onPress={() => handleReactionPress(selectedPost.id, emoji)}
+                                  style={[
+                                    styles.reactionButton,
+                                    myReaction?.emoji === emoji && styles.reactionButtonActive,
+                                    isReacting && styles.reactionButtonDisabled,
+                                  ]}
+                                  disabled={isReacting}
+                                  accessibilityRole="button"
+                                  accessibilityState={{ selected: myReaction?.emoji === emoji }}>
+                                  <Text style={styles.reactionButtonText}>{emoji}</Text>
+                                </Pressable>
+                              ))}
+                            </View>
+                          </View>
+                        ) : null}
                         <View style={styles.feedCommentList}>
-                          {selectedPost.comments.length === 0 ? (
+                          {loadingCommentsPostId === selectedPost.id ? (
+                            <Text style={styles.replyEmptyText}>댓글을 불러오는 중...</Text>
+                          ) : postCommentsError && !selectedPost.commentsLoaded ? (
+                            <Text style={styles.replyEmptyText}>{postCommentsError}</Text>
+                          ) : selectedPost.comments.length === 0 ? (
                             <Text style={styles.replyEmptyText}>첫 댓글을 남겨보세요.</Text>
                           ) : (
-                            selectedPost.comments.map((comment) => (
-                              <View key={comment.id} style={styles.replyRow}>
-                                <View style={styles.replyAvatar}>
-                                  <Text style={styles.replyAvatarText}>
-                                    {getEmojiForName(comment.name)}
-                                  </Text>
-                                </View>
-                                <View style={styles.replyBody}>
-                                  <View style={styles.replyHeader}>
-                                    <Text style={styles.replyName}>{comment.name}</Text>
-                                    <Text style={styles.replyTime}>{comment.time}</Text>
-                                  </View>
-                                  <Text style={styles.replyText}>{comment.text}</Text>
-                                </View>
+                            toCommentThreads(selectedPost.comments).map((thread) => (
+                              <View key={thread.comment.id}>
+                                {renderFeedComment(selectedPost.id, thread.comment, false)}
+                                {thread.replies.map((reply) =>
+                                  renderFeedComment(selectedPost.id, reply, true),
+                                )}
                               </View>
                             ))
                           )}
                         </View>
+                        {activeReplyTarget ? (
+                          <View style={styles.commentReplyBanner}>
+                            <Text style={styles.commentReplyBannerText}>
+                              {activeReplyTarget.name}님에게 답글 작성 중
+                            </Text>
+                            <Pressable
+                              onPress={handleCancelCommentReply}
+                              accessibilityRole="button"
+                              accessibilityLabel="답글 작성 취소">
+                              <Text style={styles.replyActionText}>취소</Text>
+                            </Pressable>
+                          </View>
+                        ) : null}
                         <View style={[styles.replyInputRow, styles.previewReplyInputRow]}>
                           <TextInput
                             value={feedCommentText}
                             onChangeText={setFeedCommentText}
-                            placeholder="댓글을 입력하세요..."
+                            placeholder={
+                              activeReplyTarget ? '답글을 입력하세요...' : '댓글을 입력하세요...'
+                            }
                             placeholderTextColor={Palette.textTertiary}
                             style={styles.replyInput}
                           />
@@ -1901,6 +3533,50 @@ export default function BookDetailScreen() {
                     )}
                   </ScrollView>
                 </View>
+                {likersPostId === selectedPostId ? (
+                  <View style={styles.likersBackdrop}>
+                    <Pressable
+                      style={StyleSheet.absoluteFill}
+                      onPress={() => setLikersPostId(null)}
+                      accessibilityRole="button"
+                      accessibilityLabel="닫기"
+                    />
+                    <View style={[styles.likersSheet, { paddingBottom: 16 + insets.bottom }]}>
+                      <View style={styles.likersHandle} />
+                      <Text style={styles.likersTitle}>좋아요한 사람</Text>
+                      {likersStatus === 'loading' && likers.length === 0 ? (
+                        <Text style={styles.emptyText}>불러오는 중...</Text>
+                      ) : likersStatus === 'error' ? (
+                        <Text style={styles.emptyText}>
+                          {likersError ?? '좋아요 목록을 불러올 수 없어요.'}
+                        </Text>
+                      ) : likers.length === 0 ? (
+                        <Text style={styles.emptyText}>아직 좋아요가 없어요.</Text>
+                      ) : (
+                        <ScrollView style={{ maxHeight: height * 0.4 }}>
+                          {likers.map((liker) => (
+                            <View key={liker.userId} style={styles.likerRow}>
+                              <View style={styles.replyAvatar}>
+                                <Text style={styles.replyAvatarText}>
+                                  {liker.userProfileEmoji?.trim() ||
+                                    getEmojiForName(liker.userNickname)}
+                                </Text>
+                              </View>
+                              <Text style={styles.likerName}>
+                                {liker.userId === currentUserId
+                                  ? `${liker.userNickname} (나)`
+                                  : liker.userNickname}
+                              </Text>
+                              <Text style={styles.replyTime}>
+                                {formatRelativeTime(liker.likedAt)}
+                              </Text>
+                            </View>
+                          ))}
+                        </ScrollView>
+                      )}
+                    </View>
+                  </View>
+                ) : null}
               </KeyboardAvoidingView>
             </Modal>
           )}
@@ -1924,9 +3600,13 @@ export default function BookDetailScreen() {
                           <Text style={styles.uploadHeroBadgeText}>📚</Text>
                         </View>
                         <View style={styles.uploadHeroText}>
-                          <Text style={styles.uploadTitle}>독서 기록 업로드</Text>
+                          <Text style={styles.uploadTitle}>
+                            {editingPostId ? '독서 기록 수정' : '독서 기록 업로드'}
+                          </Text>
                           <Text style={styles.uploadSubtitle}>
-                            사진과 기록을 한 번에 정리해 공유해요.
+                            {editingPostId
+                              ? '사진, 페이지, 글을 고친 뒤 저장해요.'
+                              : '사진과 기록을 한 번에 정리해 공유해요.'}
                           </Text>
                         </View>
                       </View>
@@ -1994,6 +3674,34 @@ export default function BookDetailScreen() {
                         </ScrollView>
                       </View>
 
+                      <View style={styles.uploadSection}>
+                        <Text style={styles.uploadSectionTitle}>읽은 페이지</Text>
+                        <View style={styles.uploadPageRow}>
+                          <TextInput
+                            value={uploadStartPage}
+                            onChangeText={setUploadStartPage}
+                            placeholder="시작"
+                            placeholderTextColor={Palette.textTertiary}
+                            keyboardType="number-pad"
+                            style={styles.uploadPageInput}
+                            accessibilityLabel="시작 페이지"
+                          />
+                          <Text style={styles.uploadPageDivider}>~</Text>
+                          <TextInput
+                            value={uploadEndPage}
+                            onChangeText={setUploadEndPage}
+                            placeholder="끝"
+                            placeholderTextColor={Palette.textTertiary}
+                            keyboardType="number-pad"
+                            style={styles.uploadPageInput}
+                            accessibilityLabel="끝 페이지"
+                          />
+                          {book?.totalPage ? (
+                            <Text style={styles.uploadHint}>/ {book.totalPage}쪽</Text>
+                          ) : null}
+                        </View>
+                      </View>
+
                       <View style={styles.uploadSection}>
                         <Text style={styles.uploadSectionTitle}>글 작성</Text>
                         <View style={styles.uploadInputCard}>
@@ -2024,15 +3732,24 @@ export default function BookDetailScreen() {
                       <View style={styles.uploadActions}>
                         <Pressable
                           style={styles.uploadCancel}
-                          onPress={() => setIsUploadOpen(false)}
+                          onPress={handleCancelUpload}
                           accessibilityRole="button">
                           <Text style={styles.uploadCancelText}>취소</Text>
                         </Pressable>
                         <Pressable
-                          style={styles.uploadSubmit}
+                          style={[styles.uploadSubmit, isSavingRecord && styles.uploadSubmitDisabled]}
                           onPress={handleUploadFeed}
+                          disabled={isSavingRecord}
                           accessibilityRole="button">
-                          <Text style={styles.uploadSubmitText}>업로드</Text>
+                          <Text style={styles.uploadSubmitText}>
+                            {editingPostId
+                              ? isSavingRecord
+                                ? '저장 중...'
+                                : '저장'
+                              : isSavingRecord
+                                ? '업로드 중...'
+                                : '업로드'}
+                          </Text>
                         </Pressable>
                       </View>
                     </ScrollView>
@@ -2166,6 +3883,59 @@ const styles = StyleSheet.create({
     ...Typography.sectionTitle,
     marginBottom: 12,
   },
+  progressSummary: {
+    fontSize: 12,
+    color: Palette.textTertiary,
+    marginBottom: 4,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  progressAvatar: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.accentSoft,
+    marginRight: 10,
+  },
+  progressAvatarText: {
+    fontSize: 16,
+  },
+  progressBody: {
+    flex: 1,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  progressName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Palette.textPrimary,
+  },
+  progressValue: {
+    fontSize: 12,
+    color: Palette.textSecondary,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: Palette.background,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 999,
+    backgroundColor: Palette.textTertiary,
+  },
+  progressFillMine: {
+    backgroundColor: Palette.accent,
+  },
   infoCard: {
     backgroundColor: Palette.surface,
     borderRadius: 18,
@@ -2416,6 +4186,9 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     backgroundColor: Palette.accent,
   },
+  sentenceAddButtonDisabled: {
+    opacity: 0.6,
+  },
   sentenceAddText: {
     fontSize: 12,
     color: Palette.surface,
@@ -2440,6 +4213,73 @@ const styles = StyleSheet.create({
     borderColor: Palette.border,
     marginTop: 12,
   },
+  sentenceBadgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    columnGap: 6,
+  },
+  syncBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: Palette.background,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  syncBadgeFailed: {
+    backgroundColor: '#FBEAE7',
+    borderColor: '#E7B5AC',
+  },
+  syncBadgeText: {
+    fontSize: 10,
+    color: Palette.textTertiary,
+  },
+  syncBadgeTextFailed: {
+    color: '#C04B3A',
+  },
+  galleryPageBadge: {
+    position: 'absolute',
+    right: 8,
+    bottom: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
+  galleryPageText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  gallerySyncBadge: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+  },
+  galleryReactionBar: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    right: 8,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  galleryReactionChip: {
+    paddingHorizontal: 7,
+    paddingVertical: 3,
+    borderRadius: 999,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
+  galleryReactionChipActive: {
+    backgroundColor: Palette.accent,
+  },
+  galleryReactionText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
   pageBadge: {
     alignSelf: 'flex-start',
     backgroundColor: Palette.accentSoft,
@@ -2457,6 +4297,86 @@ const styles = StyleSheet.create({
     color: Palette.textPrimary,
     lineHeight: 20,
   },
+  sentenceToolbar: {
+    marginTop: 12,
+    rowGap: 8,
+  },
+  sentenceFilterRow: {
+    columnGap: 6,
+  },
+  sentenceFilterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    backgroundColor: Palette.surface,
+  },
+  sentenceFilterChipActive: {
+    borderColor: Palette.accent,
+    backgroundColor: Palette.accentSoft,
+  },
+  sentenceFilterText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
+  sentenceFilterTextActive: {
+    color: Palette.textPrimary,
+  },
+  spoilerCover: {
+    paddingVertical: 14,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    backgroundColor: Palette.background,
+    alignItems: 'center',
+  },
+  spoilerTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
+  spoilerHint: {
+    marginTop: 4,
+    fontSize: 11,
+    fontWeight: '600',
+    color: Palette.accent,
+  },
+  sentenceActions: {
+    marginLeft: 'auto',
+  },
+  sentenceEditCard: {
+    marginTop: 10,
+  },
+  sentenceThoughtInput: {
+    marginTop: 8,
+    minHeight: 48,
+  },
+  sentenceThought: {
+    marginTop: 8,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderLeftColor: Palette.border,
+    fontSize: 12,
+    color: Palette.textSecondary,
+    lineHeight: 18,
+  },
+  highlightedCard: {
+    borderColor: Palette.accent,
+    borderWidth: 2,
+    backgroundColor: Palette.accentSoft,
+  },
+  sentenceShareButton: {
+    marginRight: 'auto',
+    paddingVertical: 2,
+  },
+  sentenceShareText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Palette.accent,
+  },
   sentenceMeta: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -2612,6 +4532,15 @@ const styles = StyleSheet.create({
     color: Palette.accent,
     fontWeight: '600',
   },
+  replyMoreButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  replyMoreText: {
+    fontSize: 12,
+    color: Palette.textSecondary,
+    fontWeight: '600',
+  },
   sendButton: {
     width: 28,
     height: 28,
@@ -2686,6 +4615,84 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 12,
   },
+  commentReplyRow: {
+    marginLeft: 28,
+  },
+  mentionText: {
+    color: Palette.accent,
+    fontWeight: '600',
+  },
+  commentReplyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: Palette.accentSoft,
+  },
+  commentReplyBannerText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
+  reactionSection: {
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Palette.border,
+  },
+  reactionSummaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  reactionSummaryEmoji: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Palette.textPrimary,
+    marginRight: 8,
+  },
+  reactionSummaryNames: {
+    flex: 1,
+    fontSize: 11,
+    color: Palette.textSecondary,
+  },
+  reactionEmpty: {
+    fontSize: 11,
+    color: Palette.textTertiary,
+    marginBottom: 10,
+  },
+  reactionButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  reactionButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.background,
+    borderWidth: 1,
+    borderColor: Palette.border,
+  },
+  reactionButtonActive: {
+    backgroundColor: Palette.accentSoft,
+    borderColor: Palette.accent,
+  },
+  reactionButtonDisabled: {
+    opacity: 0.4,
+  },
+  reactionButtonText: {
+    fontSize: 16,
+  },
+  feedShareButton: {
+    marginLeft: 'auto',
+  },
   likeButton: {
     width: 32,
     height: 32,
@@ -2706,6 +4713,43 @@ const styles = StyleSheet.create({
   likeButtonTextActive: {
     color: '#E25555',
   },
+  likersBackdrop: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  likersSheet: {
+    borderTopLeftRadius: 22,
+    borderTopRightRadius: 22,
+    backgroundColor: Palette.surface,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  likersHandle: {
+    alignSelf: 'center',
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Palette.border,
+    marginBottom: 14,
+  },
+  likersTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: Palette.textPrimary,
+  },
+  likerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  likerName: {
+    flex: 1,
+    fontSize: 13,
+    color: Palette.textSecondary,
+    fontWeight: '600',
+  },
   feedCommentList: {
     marginTop: 14,
     marginBottom: 12,
@@ -2868,6 +4912,27 @@ const styles = StyleSheet.create({
     color: Palette.surface,
     fontWeight: '700',
   },
+  uploadPageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  uploadPageInput: {
+    width: 72,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    backgroundColor: Palette.background,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: Palette.textPrimary,
+    textAlign: 'center',
+  },
+  uploadPageDivider: {
+    fontSize: 13,
+    color: Palette.textSecondary,
+  },
   uploadInputCard: {
     borderRadius: 14,
     borderWidth: 1,
@@ -2915,6 +4980,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     backgroundColor: Palette.accent,
   },
+  uploadSubmitDisabled: {
+    opacity: 0.6,
+  },
   uploadSubmitText: {
     fontSize: 12,
     color: Palette.surface,
@@ -2925,6 +4993,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Palette.textTertiary,
   },
+  feedLoadingMore: {
+    marginTop: 16,
+  },
   previewOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.6)',
@@ -2990,6 +5061,17 @@ const styles = StyleSheet.create({
   previewUserMeta: {
     flex: 1,
   },
+  previewMoreButton: {
+    width: 32,
+    height: 32,
+    marginRight: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewMoreText: {
+    fontSize: 18,
+    color: Palette.textSecondary,
+  },
   previewUserName: {
     fontSize: 13,
     fontWeight: '600',
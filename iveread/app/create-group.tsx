@@ -18,13 +18,17 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Stack, useRouter } from 'expo-router';
 
+import {
+  groupVisibilityOptions,
+  memberLimitOptions,
+  parseGroupTags,
+} from '@/constants/group-policy';
 import { Palette, Shadows, Typography } from '@/constants/ui';
+import { useReadingClubActions } from '@/contexts/reading-clubs-context';
 import { ApiClientError } from '@/services/api-client';
 import { searchBooks } from '@/services/books';
-import { createGroup } from '@/services/groups';
 import type { Book } from '@/types/book';
-
-const memberOptions = Array.from({ length: 11 }, (_, index) => index + 2);
+import type { GroupVisibility } from '@/types/group';
 
 const getErrorMessage = (error: unknown, fallback: string) => {
   if (error instanceof ApiClientError) {
@@ -39,6 +43,7 @@ const getErrorMessage = (error: unknown, fallback: string) => {
 export default function CreateGroupScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const { addClub } = useReadingClubActions();
   const today = new Date();
   const [form, setForm] = useState({
     groupName: '',
@@ -46,7 +51,9 @@ export default function CreateGroupScreen() {
     description: '',
     startDate: '',
     memberLimit: '',
+    tags: '',
   });
+  const [visibility, setVisibility] = useState<GroupVisibility>('public');
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [bookResults, setBookResults] = useState<Book[]>([]);
   const [isBookPickerOpen, setIsBookPickerOpen] = useState(false);
@@ -67,6 +74,7 @@ export default function CreateGroupScreen() {
   const groupNameRef = useRef<TextInput | null>(null);
   const bookTitleRef = useRef<TextInput | null>(null);
   const descriptionRef = useRef<TextInput | null>(null);
+  const tagsRef = useRef<TextInput | null>(null);
   const [focusedField, setFocusedField] = useState<React.RefObject<TextInput | null> | null>(null);
 
   const daysInMonth = useMemo(() => {
@@ -159,10 +167,15 @@ export default function CreateGroupScreen() {
 
   const handleCreateGroup = async (book: Book) => {
     const startDate = selectedDateKeyFromPicker!;
+    const description = form.description.trim();
     const payload = {
       name: form.groupName.trim(),
       startDate,
       goalDate: selectedGoalDateKeyFromPicker ?? null,
+      description: description || undefined,
+      memberLimit: Number(form.memberLimit),
+      tags: parseGroupTags(form.tags),
+      visibility,
       book: {
         isbn: book.isbn,
         title: book.title,
@@ -172,7 +185,7 @@ export default function CreateGroupScreen() {
         totalPage: book.totalPage ?? 0,
       },
     };
-    await createGroup(payload);
+    await addClub(payload);
     router.replace('/(tabs)');
   };
 
@@ -368,6 +381,50 @@ export default function CreateGroupScreen() {
                 />
               </View>
 
+              <View style={styles.field}>
+                <Text style={styles.label}>태그 (선택, 최대 5개)</Text>
+                <TextInput
+                  ref={tagsRef}
+                  value={form.tags}
+                  onChangeText={(value) => updateForm('tags', value)}
+                  placeholder="#소설 #새벽독서"
+                  placeholderTextColor={Palette.textTertiary}
+                  autoCapitalize="none"
+                  returnKeyType="done"
+                  onFocus={() => {
+                    setFocusedField(tagsRef);
+                    scrollToInput(tagsRef);
+                  }}
+                  onSubmitEditing={Keyboard.dismiss}
+                  style={styles.input}
+                />
+              </View>
+
+              <View style={styles.field}>
+                <Text style={styles.label}>공개 범위</Text>
+                <View style={styles.visibilityRow}>
+                  {groupVisibilityOptions.map((option) => {
+                    const isActive = visibility === option.value;
+                    return (
+                      <Pressable
+                        key={option.value}
+                        style={[styles.visibilityChip, isActive && styles.visibilityChipActive]}
+                        onPress={() => setVisibility(option.value)}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: isActive }}>
+                        <Text
+                          style={[styles.visibilityText, isActive && styles.visibilityTextActive]}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <Text style={styles.fieldHint}>
+                  {groupVisibilityOptions.find((option) => option.value === visibility)?.hint}
+                </Text>
+              </View>
+
               {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
 
               <Pressable onPress={handleSubmit} style={styles.submitButton} accessibilityRole="button">
@@ -387,7 +444,7 @@ export default function CreateGroupScreen() {
               <Pressable style={styles.pickerSheet} onPress={() => {}} accessibilityRole="menu">
                 <Text style={styles.pickerTitle}>모집 인원 선택</Text>
                 <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.pickerList}>
-                  {memberOptions.map((count) => {
+                  {memberLimitOptions.map((count) => {
                     const isActive = Number(form.memberLimit) === count;
                     return (
                       <Pressable
@@ -675,6 +732,37 @@ const styles = StyleSheet.create({
     color: Palette.textPrimary,
     backgroundColor: Palette.background,
   },
+  fieldHint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  visibilityChip: {
+    flex: 1,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.background,
+  },
+  visibilityChipActive: {
+    borderColor: Palette.accent,
+    backgroundColor: Palette.accentSoft,
+  },
+  visibilityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
+  visibilityTextActive: {
+    color: Palette.accent,
+  },
   pickerButton: {
     height: 44,
     borderRadius: 12,
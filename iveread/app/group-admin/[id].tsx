@@ -0,0 +1,743 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableWithoutFeedback,
+  View,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+
+import { getInviteLink } from '@/constants/app-links';
+import {
+  canManageGroup,
+  canRemoveMember,
+  getGroupRole,
+  groupRoleLabels,
+  groupVisibilityOptions,
+} from '@/constants/group-policy';
+import { Palette, Shadows, Typography } from '@/constants/ui';
+import { useCachedQuery } from '@/hooks/use-cached-query';
+import { ApiClientError } from '@/services/api-client';
+import {
+  approveJoinRequest,
+  deleteGroup,
+  denyJoinRequest,
+  groupInviteQuery,
+  groupQuery,
+  joinRequestsQuery,
+  regenerateGroupInvite,
+  removeGroupMember,
+  transferGroupOwnership,
+  updateGroup,
+  updateGroupMemberRole,
+} from '@/services/groups';
+import { getUserId } from '@/services/session';
+import type { GroupMember, GroupVisibility } from '@/types/group';
+import type { GroupJoinRequest } from '@/types/group-invite';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError) {
+    return error.message || fallback;
+  }
+  if (error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+const isValidDateKey = (value: string) => {
+  if (!DATE_KEY_PATTERN.test(value)) return false;
+  // Built and read back in UTC so the device timezone can't shift the day.
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+export default function GroupAdminScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const groupId = typeof id === 'string' ? id : null;
+  const { data: group, status, error } = useCachedQuery(
+    groupId ? groupQuery(groupId) : null,
+    '교환독서 정보를 불러오지 못했어요.',
+  );
+  // Undefined until the session lookup finishes.
+  const [currentUserId, setCurrentUserId] = useState<string | null | undefined>(undefined);
+  const [seededGroupId, setSeededGroupId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [goalDate, setGoalDate] = useState('');
+  const [visibility, setVisibility] = useState<GroupVisibility>('public');
+  const [pendingRequestId, setPendingRequestId] = useState<string | null>(null);
+  const [isRegeneratingInvite, setIsRegeneratingInvite] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingMemberId, setPendingMemberId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getUserId()
+      .then((userId) => {
+        if (!controller.signal.aborted) setCurrentUserId(userId);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setCurrentUserId(null);
+      });
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  // Seed the form once per group; later refetches must not overwrite unsaved edits.
+  if (group && group.id !== seededGroupId) {
+    setSeededGroupId(group.id);
+    setName(group.name);
+    setGoalDate(group.goalDate ?? '');
+    setVisibility(group.visibility);
+  }
+
+  const myRole = group ? getGroupRole(group, currentUserId ?? null) : null;
+  const isOwner = myRole === 'owner';
+  // Invites and join requests are admin-only endpoints; skip them until the role is known.
+  const canManage = canManageGroup(myRole);
+  const { data: invite } = useCachedQuery(
+    groupId && canManage ? groupInviteQuery(groupId) : null,
+    '초대 링크를 불러오지 못했어요.',
+  );
+  const { data: joinRequests } = useCachedQuery(
+    groupId && canManage ? joinRequestsQuery(groupId) : null,
+    '가입 요청을 불러오지 못했어요.',
+  );
+  const members = useMemo(() => group?.members ?? [], [group?.members]);
+
+  const contentContainerStyle = useMemo(
+    () => [styles.container, { paddingBottom: 120 + insets.bottom }],
+    [insets.bottom],
+  );
+
+  const handleSave = async () => {
+    if (!groupId || !group || isSaving) return;
+    const trimmedName = name.trim();
+    const trimmedGoalDate = goalDate.trim();
+    if (!trimmedName) {
+      Alert.alert('안내', '그룹 이름을 입력해 주세요.');
+      return;
+    }
+    if (trimmedGoalDate && !isValidDateKey(trimmedGoalDate)) {
+      Alert.alert('안내', '목표일은 YYYY-MM-DD 형식으로 입력해 주세요.');
+      return;
+    }
+    if (trimmedGoalDate && trimmedGoalDate < group.startDate) {
+      Alert.alert('안내', '목표일은 시작일 이후여야 해요.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateGroup(groupId, {
+        name: trimmedName,
+        // An emptied field removes the goal date.
+        goalDate: trimmedGoalDate || null,
+        visibility,
+      });
+      Alert.alert('안내', '그룹 정보를 저장했어요.');
+    } catch (err) {
+      Alert.alert('안내', getErrorMessage(err, '그룹 정보를 저장하지 못했어요.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runMemberAction = async (
+    memberId: string,
+    action: () => Promise<unknown>,
+    fallback: string,
+  ) => {
+    setPendingMemberId(memberId);
+    try {
+      await action();
+    } catch (err) {
+      Alert.alert('안내', getErrorMessage(err, fallback));
+    } finally {
+      setPendingMemberId(null);
+    }
+  };
+
+  const handleRemoveMember = (member: GroupMember) => {
+    if (!groupId || pendingMemberId) return;
+    Alert.alert('멤버 내보내기', `${member.nickname}님을 그룹에서 내보낼까요?`, [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '내보내기',
+        style: 'destructive',
+        onPress: () =>
+          runMemberAction(
+            member.id,
+            () => removeGroupMember(groupId, member.id),
+            '멤버를 내보내지 못했어요.',
+          ),
+      },
+    ]);
+  };
+
+  const handleToggleAdmin = (member: GroupMember) => {
+    if (!groupId || pendingMemberId) return;
+    const nextRole = member.role === 'admin' ? 'member' : 'admin';
+    runMemberAction(
+      member.id,
+      () => updateGroupMemberRole(groupId, member.id, nextRole),
+      '권한을 변경하지 못했어요.',
+    );
+  };
+
+  const handleTransferOwnership = (member: GroupMember) => {
+    if (!groupId || pendingMemberId) return;
+    Alert.alert(
+      '방장 넘기기',
+      `${member.nickname}님에게 방장을 넘길까요? 나는 관리자로 남아요.`,
+      [
+        { text: '취소', style: 'cancel' },
+        {
+          text: '넘기기',
+          style: 'destructive',
+          onPress: () =>
+            runMemberAction(
+              member.id,
+              () => transferGroupOwnership(groupId, member.id),
+              '방장을 넘기지 못했어요.',
+            ),
+        },
+      ],
+    );
+  };
+
+  const handleShareInvite = async () => {
+    if (!group || !invite) return;
+    try {
+      await Share.share({
+        message: `'${group.name}' 교환독서에 초대했어요.\n${getInviteLink(invite.code)}`,
+      });
+    } catch (err) {
+      Alert.alert('안내', getErrorMessage(err, '초대 링크를 공유하지 못했어요.'));
+    }
+  };
+
+  const handleRegenerateInvite = () => {
+    if (!groupId || isRegeneratingInvite) return;
+    Alert.alert('새 초대 코드', '기존 초대 링크는 더 이상 사용할 수 없어요. 새로 만들까요?', [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '새로 만들기',
+        onPress: () => {
+          setIsRegeneratingInvite(true);
+          regenerateGroupInvite(groupId)
+            .catch((err) => {
+              Alert.alert('안내', getErrorMessage(err, '초대 코드를 만들지 못했어요.'));
+            })
+            .finally(() => {
+              setIsRegeneratingInvite(false);
+            });
+        },
+      },
+    ]);
+  };
+
+  const handleJoinRequest = async (joinRequest: GroupJoinRequest, approve: boolean) => {
+    if (!groupId || pendingRequestId) return;
+    setPendingRequestId(joinRequest.id);
+    try {
+      if (approve) {
+        await approveJoinRequest(groupId, joinRequest.id);
+      } else {
+        await denyJoinRequest(groupId, joinRequest.id);
+      }
+    } catch (err) {
+      Alert.alert('안내', getErrorMessage(err, '가입 요청을 처리하지 못했어요.'));
+    } finally {
+      setPendingRequestId(null);
+    }
+  };
+
+  const handleDeleteGroup = () => {
+    if (!groupId || isDeleting) return;
+    Alert.alert('그룹 삭제', '모든 멤버의 기록과 문장이 함께 삭제돼요. 정말 삭제할까요?', [
+      { text: '취소', style: 'cancel' },
+      {
+        text: '삭제',
+        style: 'destructive',
+        onPress: () => {
+          setIsDeleting(true);
+          deleteGroup(groupId)
+            .then(() => {
+              router.replace('/(tabs)');
+            })
+            .catch((err) => {
+              Alert.alert('안내', getErrorMessage(err, '그룹을 삭제하지 못했어요.'));
+            })
+            .finally(() => {
+              setIsDeleting(false);
+            });
+        },
+      },
+    ]);
+  };
+
+  const renderMember = (member: GroupMember) => {
+    const isMe = member.id === currentUserId;
+    const isPending = pendingMemberId === member.id;
+    const canRemove = !isMe && canRemoveMember(myRole, member.role);
+    const canChangeRole = isOwner && !isMe && member.role !== 'owner';
+    return (
+      <View key={member.id} style={styles.memberRow}>
+        <Text style={styles.memberEmoji}>{member.emoji || member.nickname.slice(0, 1)}</Text>
+        <View style={styles.memberBody}>
+          <Text style={styles.memberName}>
+            {member.nickname}
+            {isMe ? ' (나)' : ''}
+          </Text>
+          <Text style={styles.memberRole}>{groupRoleLabels[member.role]}</Text>
+        </View>
+        {isPending ? (
+          <ActivityIndicator size="small" color={Palette.accent} />
+        ) : (
+          <View style={styles.memberActions}>
+            {canChangeRole ? (
+              <Pressable
+                style={styles.memberAction}
+                onPress={() => handleToggleAdmin(member)}
+                accessibilityRole="button">
+                <Text style={styles.memberActionText}>
+                  {member.role === 'admin' ? '관리자 해제' : '관리자 지정'}
+                </Text>
+              </Pressable>
+            ) : null}
+            {canChangeRole ? (
+              <Pressable
+                style={styles.memberAction}
+                onPress={() => handleTransferOwnership(member)}
+                accessibilityRole="button">
+                <Text style={styles.memberActionText}>방장 넘기기</Text>
+              </Pressable>
+            ) : null}
+            {canRemove ? (
+              <Pressable
+                style={styles.memberAction}
+                onPress={() => handleRemoveMember(member)}
+                accessibilityRole="button">
+                <Text style={[styles.memberActionText, styles.dangerText]}>내보내기</Text>
+              </Pressable>
+            ) : null}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderJoinRequest = (joinRequest: GroupJoinRequest) => (
+    <View key={joinRequest.id} style={styles.memberRow}>
+      <Text style={styles.memberEmoji}>
+        {joinRequest.userProfileEmoji || joinRequest.userNickname.slice(0, 1)}
+      </Text>
+      <View style={styles.memberBody}>
+        <Text style={styles.memberName}>{joinRequest.userNickname}</Text>
+        <Text style={styles.memberRole}>{joinRequest.createdAt.slice(0, 10)} 요청</Text>
+      </View>
+      {pendingRequestId === joinRequest.id ? (
+        <ActivityIndicator size="small" color={Palette.accent} />
+      ) : (
+        <View style={styles.requestActions}>
+          <Pressable
+            style={styles.memberAction}
+            onPress={() => handleJoinRequest(joinRequest, true)}
+            accessibilityRole="button">
+            <Text style={styles.memberActionText}>승인</Text>
+          </Pressable>
+          <Pressable
+            style={styles.memberAction}
+            onPress={() => handleJoinRequest(joinRequest, false)}
+            accessibilityRole="button">
+            <Text style={[styles.memberActionText, styles.dangerText]}>거절</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (status === 'loading' || (group && currentUserId === undefined)) {
+      return <Text style={styles.emptyText}>그룹 정보를 불러오는 중...</Text>;
+    }
+    if (!group) {
+      return <Text style={styles.emptyText}>{error ?? '그룹 정보를 찾을 수 없어요.'}</Text>;
+    }
+    if (!canManage) {
+      return <Text style={styles.emptyText}>그룹을 관리할 권한이 없어요.</Text>;
+    }
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>기본 정보</Text>
+          <View style={styles.field}>
+            <Text style={styles.label}>그룹 이름</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="그룹 이름"
+              placeholderTextColor={Palette.textTertiary}
+              returnKeyType="next"
+              style={styles.input}
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>목표일</Text>
+            <TextInput
+              value={goalDate}
+              onChangeText={setGoalDate}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={Palette.textTertiary}
+              keyboardType="numbers-and-punctuation"
+              returnKeyType="done"
+              onSubmitEditing={Keyboard.dismiss}
+              style={styles.input}
+            />
+            <Text style={styles.hint}>시작일 {group.startDate}</Text>
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>공개 범위</Text>
+            <View style={styles.visibilityRow}>
+              {groupVisibilityOptions.map((option) => {
+                const isActive = visibility === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.visibilityChip, isActive && styles.visibilityChipActive]}
+                    onPress={() => setVisibility(option.value)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: isActive }}>
+                    <Text style={[styles.visibilityText, isActive && styles.visibilityTextActive]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.hint}>
+              {groupVisibilityOptions.find((option) => option.value === visibility)?.hint}
+            </Text>
+          </View>
+          <Pressable
+            style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+            accessibilityRole="button">
+            <Text style={styles.primaryButtonText}>{isSaving ? '저장 중...' : '저장'}</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>초대 링크</Text>
+          <Text style={styles.inviteCode}>{invite?.code ?? '불러오는 중...'}</Text>
+          <Text style={styles.hint}>링크를 받은 사람은 승인 없이 바로 참여할 수 있어요.</Text>
+          <View style={styles.inviteActions}>
+            <Pressable
+              style={[styles.secondaryButton, !invite && styles.buttonDisabled]}
+              onPress={handleShareInvite}
+              disabled={!invite}
+              accessibilityRole="button">
+              <Text style={styles.secondaryButtonText}>링크 공유</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.secondaryButton, isRegeneratingInvite && styles.buttonDisabled]}
+              onPress={handleRegenerateInvite}
+              disabled={isRegeneratingInvite}
+              accessibilityRole="button">
+              <Text style={styles.secondaryButtonText}>
+                {isRegeneratingInvite ? '만드는 중...' : '새 코드 만들기'}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {group.visibility === 'approval' || (joinRequests?.length ?? 0) > 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>가입 요청 {joinRequests?.length ?? 0}건</Text>
+            {joinRequests && joinRequests.length > 0 ? (
+              joinRequests.map(renderJoinRequest)
+            ) : (
+              <Text style={styles.hint}>대기 중인 가입 요청이 없어요.</Text>
+            )}
+          </View>
+        ) : null}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>멤버 {members.length}명</Text>
+          {members.map(renderMember)}
+        </View>
+
+        {isOwner ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>그룹 삭제</Text>
+            <Text style={styles.hint}>삭제한 그룹은 되돌릴 수 없어요.</Text>
+            <Pressable
+              style={[styles.dangerButton, isDeleting && styles.buttonDisabled]}
+              onPress={handleDeleteGroup}
+              disabled={isDeleting}
+              accessibilityRole="button">
+              <Text style={styles.dangerButtonText}>
+                {isDeleting ? '삭제 중...' : '그룹 삭제하기'}
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.keyboardAvoidingView}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={insets.top}>
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
+        <SafeAreaView style={styles.safeArea}>
+          <Stack.Screen options={{ headerShown: false }} />
+          <ScrollView
+            contentContainerStyle={contentContainerStyle}
+            keyboardShouldPersistTaps="handled"
+            keyboardDismissMode="interactive"
+            showsVerticalScrollIndicator={false}>
+            <View style={styles.headerRow}>
+              <Pressable
+                onPress={() => router.back()}
+                style={styles.backButton}
+                accessibilityRole="button">
+                <Text style={styles.backIcon}>‹</Text>
+              </Pressable>
+              <Text style={styles.headerTitle}>그룹 관리</Text>
+              <View style={styles.headerSpacer} />
+            </View>
+            {renderContent()}
+          </ScrollView>
+        </SafeAreaView>
+      </TouchableWithoutFeedback>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Palette.background,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+    backgroundColor: Palette.background,
+  },
+  container: {
+    padding: 22,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backIcon: {
+    fontSize: 26,
+    color: Palette.textSecondary,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 17,
+    fontWeight: '700',
+    color: Palette.textPrimary,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  emptyText: {
+    ...Typography.caption,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: Palette.surface,
+    borderRadius: 18,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    marginBottom: 16,
+    ...Shadows.card,
+  },
+  cardTitle: {
+    ...Typography.sectionTitle,
+    marginBottom: 12,
+  },
+  field: {
+    marginBottom: 14,
+  },
+  label: {
+    fontSize: 12,
+    color: Palette.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    height: 42,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    paddingHorizontal: 12,
+    fontSize: 13,
+    color: Palette.textPrimary,
+    backgroundColor: Palette.background,
+  },
+  hint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
+  primaryButton: {
+    backgroundColor: Palette.accent,
+    borderRadius: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Palette.surface,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  visibilityChip: {
+    flex: 1,
+    height: 38,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Palette.background,
+  },
+  visibilityChipActive: {
+    borderColor: Palette.accent,
+    backgroundColor: Palette.accentSoft,
+  },
+  visibilityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Palette.textSecondary,
+  },
+  visibilityTextActive: {
+    color: Palette.accent,
+  },
+  inviteCode: {
+    fontSize: 20,
+    fontWeight: '700',
+    letterSpacing: 2,
+    color: Palette.textPrimary,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 14,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Palette.accent,
+  },
+  secondaryButtonText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: Palette.accent,
+  },
+  requestActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: Palette.border,
+  },
+  memberEmoji: {
+    width: 32,
+    fontSize: 20,
+    textAlign: 'center',
+  },
+  memberBody: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  memberName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Palette.textPrimary,
+  },
+  memberRole: {
+    marginTop: 2,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
+  memberActions: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  memberAction: {
+    paddingVertical: 2,
+  },
+  memberActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Palette.accent,
+  },
+  dangerText: {
+    color: '#C04B3A',
+  },
+  dangerButton: {
+    marginTop: 12,
+    borderRadius: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#C04B3A',
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#C04B3A',
+  },
+});
@@ -0,0 +1,10 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+// https://iveread.app/groups/:id — the group screen lives at app/book/[id].tsx.
+export default function GroupLinkScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  if (typeof id !== 'string') {
+    return <Redirect href="/(tabs)" />;
+  }
+  return <Redirect href={{ pathname: '/book/[id]', params: { id } }} />;
+}
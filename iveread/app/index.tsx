@@ -1,5 +1,12 @@
 import { Redirect } from 'expo-router';
 
+import { useSession } from '@/contexts/session-context';
+
 export default function Index() {
-  return <Redirect href="/login" />;
+  const { status } = useSession();
+
+  if (status === 'loading') {
+    return null;
+  }
+  return <Redirect href={status === 'signedIn' ? '/(tabs)' : '/login'} />;
 }
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Image, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+
+import { formatMemberCount, isGroupFull } from '@/constants/group-policy';
+import { Palette, Shadows, Typography } from '@/constants/ui';
+import { ApiClientError, isAbortError } from '@/services/api-client';
+import { getInvitePreview, joinGroupByInvite } from '@/services/groups';
+import type { GroupInvitePreview } from '@/types/group-invite';
+
+type LoadState = 'loading' | 'success' | 'error';
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError) {
+    return error.message || fallback;
+  }
+  if (error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+export default function InviteScreen() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code?: string }>();
+  const inviteCode = typeof code === 'string' ? code : null;
+  const [preview, setPreview] = useState<GroupInvitePreview | null>(null);
+  const [status, setStatus] = useState<LoadState>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    if (!inviteCode) {
+      setStatus('error');
+      setError('초대 코드가 없어요.');
+      return undefined;
+    }
+    const controller = new AbortController();
+    setStatus('loading');
+    setError(null);
+    getInvitePreview(inviteCode, { signal: controller.signal })
+      .then((result) => {
+        setPreview(result);
+        setStatus('success');
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        setStatus('error');
+        setError(getErrorMessage(err, '초대 정보를 불러오지 못했어요.'));
+      });
+    return () => controller.abort();
+  }, [inviteCode]);
+
+  const openGroup = (groupId: string) => {
+    router.replace({ pathname: '/book/[id]', params: { id: groupId } });
+  };
+
+  const handleJoin = async () => {
+    if (!inviteCode || !preview || isJoining) return;
+    setIsJoining(true);
+    try {
+      const group = await joinGroupByInvite(inviteCode);
+      openGroup(group.id);
+    } catch (err) {
+      Alert.alert('안내', getErrorMessage(err, '그룹에 참여하지 못했어요.'));
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const isFull = preview ? isGroupFull(preview) : false;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <Pressable
+            onPress={() => (router.canGoBack() ? router.back() : router.replace('/(tabs)'))}
+            style={styles.backButton}
+            accessibilityRole="button">
+            <Text style={styles.backIcon}>‹</Text>
+          </Pressable>
+          <Text style={styles.headerTitle}>교환독서 초대</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {status === 'loading' ? (
+          <Text style={styles.emptyText}>초대 정보를 불러오는 중...</Text>
+        ) : status === 'error' || !preview ? (
+          <Text style={styles.emptyText}>{error ?? '초대 정보를 찾을 수 없어요.'}</Text>
+        ) : (
+          <View style={styles.card}>
+            {preview.bookCover ? (
+              <Image source={{ uri: preview.bookCover }} style={styles.cover} />
+            ) : null}
+            <Text style={styles.groupName}>{preview.groupName}</Text>
+            <Text style={styles.bookTitle}>{preview.bookTitle}</Text>
+            <Text style={styles.meta}>{formatMemberCount(preview)} 참여 중</Text>
+            {preview.isMember ? (
+              <Pressable
+                style={styles.primaryButton}
+                onPress={() => openGroup(preview.groupId)}
+                accessibilityRole="button">
+                <Text style={styles.primaryButtonText}>이미 참여 중이에요 · 보러 가기</Text>
+              </Pressable>
+            ) : (
+              <Pressable
+                style={[styles.primaryButton, (isJoining || isFull) && styles.buttonDisabled]}
+                onPress={handleJoin}
+                disabled={isJoining || isFull}
+                accessibilityRole="button">
+                <Text style={styles.primaryButtonText}>
+                  {isFull ? '정원 마감' : isJoining ? '참여 중...' : '참여하기'}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Palette.background,
+  },
+  container: {
+    flex: 1,
+    padding: 22,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backIcon: {
+    fontSize: 26,
+    color: Palette.textSecondary,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 17,
+    fontWeight: '700',
+    color: Palette.textPrimary,
+  },
+  headerSpacer: {
+    width: 36,
+  },
+  emptyText: {
+    ...Typography.caption,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    alignItems: 'center',
+    backgroundColor: Palette.surface,
+    borderRadius: 18,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: Palette.border,
+    ...Shadows.card,
+  },
+  cover: {
+    width: 96,
+    height: 140,
+    borderRadius: 10,
+    marginBottom: 14,
+  },
+  groupName: {
+    ...Typography.sectionTitle,
+    textAlign: 'center',
+  },
+  bookTitle: {
+    ...Typography.body,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  meta: {
+    ...Typography.caption,
+    marginTop: 6,
+  },
+  primaryButton: {
+    marginTop: 18,
+    alignSelf: 'stretch',
+    backgroundColor: Palette.accent,
+    borderRadius: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Palette.surface,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -17,8 +17,9 @@ import {
   useWindowDimensions,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
+import { getSafeRedirect } from '@/constants/app-links';
 import { Palette, Shadows, Typography } from '@/constants/ui';
 import { useFriends } from '@/contexts/friends-context';
 import { useProfile } from '@/contexts/profile-context';
@@ -27,6 +28,8 @@ import { ApiClientError } from '@/services/api-client';
 
 export default function LoginScreen() {
   const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  const redirectTo = getSafeRedirect(redirect);
   const { height } = useWindowDimensions();
   const heroHeight = Math.min(Math.floor(height * 0.38), 320);
   const insets = useSafeAreaInsets();
@@ -93,7 +96,7 @@ export default function LoginScreen() {
       setIsSubmitting(true);
       await login({ email: trimmedEmail, password });
       await Promise.all([refreshProfile().catch(() => {}), refreshFriends().catch(() => {})]);
-      router.replace('/(tabs)');
+      router.replace(redirectTo ?? '/(tabs)');
     } catch (error) {
       const message =
         error instanceof ApiClientError
@@ -103,7 +106,7 @@ export default function LoginScreen() {
     } finally {
       setIsSubmitting(false);
     }
-  }, [email, isSubmitting, password, router]);
+  }, [email, isSubmitting, password, redirectTo, router]);
 
   return (
     <KeyboardAvoidingView
@@ -176,7 +179,11 @@ export default function LoginScreen() {
               </Pressable>
               <Pressable
                 style={styles.secondaryButton}
-                onPress={() => router.push('/signup')}
+                onPress={() =>
+                  router.push(
+                    redirectTo ? { pathname: '/signup', params: { redirect } } : '/signup',
+                  )
+                }
                 accessibilityRole="button">
                 <Text style={styles.secondaryButtonText}>회원가입</Text>
               </Pressable>
@@ -17,18 +17,74 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Stack, useRouter } from 'expo-router';
 
+import { passwordPolicyHint, validatePassword } from '@/constants/password-policy';
 import { Palette, Shadows, Typography } from '@/constants/ui';
-import { useProfile } from '@/contexts/profile-context';
+import { ApiClientError } from '@/services/api-client';
+import { requestPasswordReset, resetPassword, verifyPasswordResetCode } from '@/services/auth';
+
+type ResetStep = 'email' | 'code' | 'password';
+
+const RESET_CODE_LENGTH = 6;
+
+const resetErrorMessages: Record<string, string> = {
+  RESET_CODE_INVALID: '인증 코드가 올바르지 않아요. 다시 확인해 주세요.',
+  RESET_CODE_EXPIRED: '인증 코드가 만료되었어요. 코드를 다시 받아 주세요.',
+  RESET_TOKEN_EXPIRED: '인증 시간이 지났어요. 처음부터 다시 진행해 주세요.',
+  RESET_TOKEN_INVALID: '인증 정보가 올바르지 않아요. 처음부터 다시 진행해 주세요.',
+};
+
+const getResetErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError) {
+    if (error.code && resetErrorMessages[error.code]) {
+      return resetErrorMessages[error.code];
+    }
+    if (error.status === 429) {
+      return '요청이 너무 많아요. 잠시 후 다시 시도해 주세요.';
+    }
+    return error.message || fallback;
+  }
+  if (error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+const isResetTokenError = (error: unknown) =>
+  error instanceof ApiClientError &&
+  (error.code === 'RESET_TOKEN_EXPIRED' || error.code === 'RESET_TOKEN_INVALID');
+
+const stepCopy: Record<ResetStep, { title: string; subtitle: string; action: string }> = {
+  email: {
+    title: '가입한 이메일을 입력해 주세요',
+    subtitle: '비밀번호 재설정을 위한 인증 코드를 보내드려요.',
+    action: '인증 코드 받기',
+  },
+  code: {
+    title: '인증 코드를 입력해 주세요',
+    subtitle: '메일로 받은 6자리 코드를 입력해 주세요.',
+    action: '코드 확인',
+  },
+  password: {
+    title: '새 비밀번호를 설정해 주세요',
+    subtitle: '새로운 비밀번호를 입력하고 확인해 주세요.',
+    action: '비밀번호 변경',
+  },
+};
 
 export default function PasswordResetScreen() {
   const router = useRouter();
-  const { updateProfile } = useProfile();
   const insets = useSafeAreaInsets();
+  const [step, setStep] = useState<ResetStep>('email');
   const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [resetToken, setResetToken] = useState<string | null>(null);
   const [password, setPassword] = useState('');
   const [passwordConfirm, setPasswordConfirm] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const emailRef = useRef<TextInput | null>(null);
+  const codeRef = useRef<TextInput | null>(null);
   const passwordRef = useRef<TextInput | null>(null);
   const passwordConfirmRef = useRef<TextInput | null>(null);
   const [focusedField, setFocusedField] = useState<React.RefObject<TextInput | null> | null>(null);
@@ -73,25 +129,99 @@ export default function PasswordResetScreen() {
     [insets.bottom],
   );
 
-  const handleReset = () => {
-    if (!email.trim()) {
-      Alert.alert('안내', '아이디(이메일)를 입력해 주세요.');
+  const handleRequestCode = async () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
+      setErrorMessage('아이디(이메일)를 입력해 주세요.');
       return;
     }
-    if (!password.trim()) {
-      Alert.alert('안내', '비밀번호를 입력해 주세요.');
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await requestPasswordReset({ email: trimmedEmail });
+      setCode('');
+      setResetToken(null);
+      setStep('code');
+    } catch (error) {
+      setErrorMessage(getResetErrorMessage(error, '인증 코드를 보내지 못했어요.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    const trimmedCode = code.trim();
+    if (trimmedCode.length !== RESET_CODE_LENGTH) {
+      setErrorMessage('6자리 인증 코드를 입력해 주세요.');
+      return;
+    }
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const token = await verifyPasswordResetCode({ email: email.trim(), code: trimmedCode });
+      setResetToken(token);
+      setStep('password');
+    } catch (error) {
+      setErrorMessage(getResetErrorMessage(error, '인증 코드를 확인하지 못했어요.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    const policyError = validatePassword(password);
+    if (policyError) {
+      setErrorMessage(policyError);
       return;
     }
     if (password !== passwordConfirm) {
-      Alert.alert('안내', '비밀번호가 서로 다릅니다.');
+      setErrorMessage('비밀번호가 서로 다릅니다.');
+      return;
+    }
+    if (!resetToken) {
+      setStep('email');
       return;
     }
-    updateProfile({ password: password.trim() });
-    Alert.alert('완료', '비밀번호가 변경되었습니다.', [
-      { text: '확인', onPress: () => router.replace('/login') },
-    ]);
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      await resetPassword({ resetToken, newPassword: password });
+      Alert.alert('완료', '비밀번호가 변경되었습니다. 새 비밀번호로 로그인해 주세요.', [
+        { text: '확인', onPress: () => router.replace('/login') },
+      ]);
+    } catch (error) {
+      setErrorMessage(getResetErrorMessage(error, '비밀번호를 변경하지 못했어요.'));
+      if (isResetTokenError(error)) {
+        setResetToken(null);
+        setPassword('');
+        setPasswordConfirm('');
+        setStep('email');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
+  const handleSubmit = () => {
+    if (isSubmitting) return;
+    if (step === 'email') {
+      handleRequestCode();
+    } else if (step === 'code') {
+      handleVerifyCode();
+    } else {
+      handleResetPassword();
+    }
+  };
+
+  const handleChangeEmail = () => {
+    setStep('email');
+    setCode('');
+    setResetToken(null);
+    setErrorMessage(null);
+  };
+
+  const copy = stepCopy[step];
+
   return (
     <KeyboardAvoidingView
       style={styles.keyboardAvoidingView}
@@ -117,75 +247,132 @@ export default function PasswordResetScreen() {
           <View style={styles.headerSpacer} />
         </View>
 
-        <Text style={styles.title}>새 비밀번호를 설정해 주세요</Text>
-        <Text style={styles.subtitle}>새로운 비밀번호를 입력하고 확인해 주세요.</Text>
+        <Text style={styles.title}>{copy.title}</Text>
+        <Text style={styles.subtitle}>{copy.subtitle}</Text>
 
         <View style={styles.formCard}>
-          <View style={styles.field}>
-            <Text style={styles.label}>아이디(이메일)</Text>
-            <TextInput
-              ref={emailRef}
-              value={email}
-              onChangeText={setEmail}
-              placeholder="example@iveread.app"
-              placeholderTextColor={Palette.textTertiary}
-              autoCapitalize="none"
-              keyboardType="email-address"
-              returnKeyType="next"
-              blurOnSubmit={false}
-              onFocus={() => {
-                setFocusedField(emailRef);
-                scrollToInput(emailRef);
-              }}
-              onSubmitEditing={() => passwordRef.current?.focus()}
-              style={styles.input}
-            />
-          </View>
-          <View style={styles.field}>
-            <Text style={styles.label}>새 비밀번호</Text>
-            <TextInput
-              ref={passwordRef}
-              value={password}
-              onChangeText={setPassword}
-              placeholder="비밀번호"
-              placeholderTextColor={Palette.textTertiary}
-              secureTextEntry
-              textContentType="oneTimeCode"
-              returnKeyType="next"
-              blurOnSubmit={false}
-              onFocus={() => {
-                setFocusedField(passwordRef);
-                scrollToInput(passwordRef);
-              }}
-              onSubmitEditing={() => passwordConfirmRef.current?.focus()}
-              style={styles.input}
-            />
-          </View>
+          {step === 'email' ? (
+            <View style={styles.field}>
+              <Text style={styles.label}>아이디(이메일)</Text>
+              <TextInput
+                ref={emailRef}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="example@iveread.app"
+                placeholderTextColor={Palette.textTertiary}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                returnKeyType="send"
+                onFocus={() => {
+                  setFocusedField(emailRef);
+                  scrollToInput(emailRef);
+                }}
+                onSubmitEditing={handleSubmit}
+                style={styles.input}
+              />
+            </View>
+          ) : null}
 
-          <View style={styles.field}>
-            <Text style={styles.label}>비밀번호 확인</Text>
-            <TextInput
-              ref={passwordConfirmRef}
-              value={passwordConfirm}
-              onChangeText={setPasswordConfirm}
-              placeholder="비밀번호 확인"
-              placeholderTextColor={Palette.textTertiary}
-              secureTextEntry
-              textContentType="oneTimeCode"
-              returnKeyType="done"
-              blurOnSubmit
-              onFocus={() => {
-                setFocusedField(passwordConfirmRef);
-                scrollToInput(passwordConfirmRef);
-              }}
-              onSubmitEditing={Keyboard.dismiss}
-              style={styles.input}
-            />
-          </View>
+          {step === 'code' ? (
+            <>
+              <View style={styles.field}>
+                <Text style={styles.label}>인증 코드</Text>
+                <TextInput
+                  ref={codeRef}
+                  value={code}
+                  onChangeText={(value) => setCode(value.replace(/[^0-9]/g, ''))}
+                  placeholder="6자리 숫자"
+                  placeholderTextColor={Palette.textTertiary}
+                  keyboardType="number-pad"
+                  textContentType="oneTimeCode"
+                  maxLength={RESET_CODE_LENGTH}
+                  returnKeyType="done"
+                  onFocus={() => {
+                    setFocusedField(codeRef);
+                    scrollToInput(codeRef);
+                  }}
+                  onSubmitEditing={handleSubmit}
+                  style={styles.input}
+                />
+              </View>
+              <View style={styles.helperRow}>
+                <Text style={styles.helperText}>{email.trim()}</Text>
+                <View style={styles.helperActions}>
+                  <Pressable
+                    onPress={handleChangeEmail}
+                    accessibilityRole="button"
+                    hitSlop={8}
+                    disabled={isSubmitting}>
+                    <Text style={styles.helperLink}>이메일 변경</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={handleRequestCode}
+                    accessibilityRole="button"
+                    hitSlop={8}
+                    disabled={isSubmitting}>
+                    <Text style={styles.helperLink}>코드 다시 받기</Text>
+                  </Pressable>
+                </View>
+              </View>
+            </>
+          ) : null}
+
+          {step === 'password' ? (
+            <>
+              <View style={styles.field}>
+                <Text style={styles.label}>새 비밀번호</Text>
+                <TextInput
+                  ref={passwordRef}
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="비밀번호"
+                  placeholderTextColor={Palette.textTertiary}
+                  secureTextEntry
+                  textContentType="oneTimeCode"
+                  returnKeyType="next"
+                  blurOnSubmit={false}
+                  onFocus={() => {
+                    setFocusedField(passwordRef);
+                    scrollToInput(passwordRef);
+                  }}
+                  onSubmitEditing={() => passwordConfirmRef.current?.focus()}
+                  style={styles.input}
+                />
+                <Text style={styles.hint}>{passwordPolicyHint}</Text>
+              </View>
+
+              <View style={styles.field}>
+                <Text style={styles.label}>비밀번호 확인</Text>
+                <TextInput
+                  ref={passwordConfirmRef}
+                  value={passwordConfirm}
+                  onChangeText={setPasswordConfirm}
+                  placeholder="비밀번호 확인"
+                  placeholderTextColor={Palette.textTertiary}
+                  secureTextEntry
+                  textContentType="oneTimeCode"
+                  returnKeyType="done"
+                  blurOnSubmit
+                  onFocus={() => {
+                    setFocusedField(passwordConfirmRef);
+                    scrollToInput(passwordConfirmRef);
+                  }}
+                  onSubmitEditing={Keyboard.dismiss}
+                  style={styles.input}
+                />
+              </View>
+            </>
+          ) : null}
+
+          {errorMessage ? <Text style={styles.errorText}>{errorMessage}</Text> : null}
         </View>
 
-        <Pressable style={styles.saveButton} onPress={handleReset} accessibilityRole="button">
-          <Text style={styles.saveButtonText}>비밀번호 변경</Text>
+        <Pressable
+          style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={isSubmitting}
+          accessibilityRole="button">
+          <Text style={styles.saveButtonText}>{isSubmitting ? '처리 중...' : copy.action}</Text>
         </Pressable>
           </ScrollView>
         </SafeAreaView>
@@ -271,6 +458,11 @@ const styles = StyleSheet.create({
     color: Palette.textPrimary,
     backgroundColor: Palette.background,
   },
+  hint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
   saveButton: {
     marginTop: 18,
     backgroundColor: Palette.accent,
@@ -279,9 +471,35 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     ...Shadows.card,
   },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
   saveButtonText: {
     fontSize: 14,
     fontWeight: '700',
     color: Palette.surface,
   },
+  helperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  helperActions: {
+    flexDirection: 'row',
+    columnGap: 12,
+  },
+  helperText: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: Palette.textSecondary,
+  },
+  helperLink: {
+    fontSize: 12,
+    color: Palette.accent,
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 12,
+    color: '#C04B3A',
+  },
 });
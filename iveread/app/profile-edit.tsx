@@ -17,12 +17,17 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Stack, useRouter } from 'expo-router';
 
+import { passwordPolicyHint, validatePassword } from '@/constants/password-policy';
 import { Palette, Shadows } from '@/constants/ui';
 import { useProfile } from '@/contexts/profile-context';
 import { ApiClientError } from '@/services/api-client';
+import { changePassword } from '@/services/auth';
 import { getMe, updateMe } from '@/services/users';
 
 const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError && error.code === 'INVALID_PASSWORD') {
+    return '현재 비밀번호가 올바르지 않아요.';
+  }
   if (error instanceof ApiClientError) {
     return error.message || fallback;
   }
@@ -37,6 +42,7 @@ export default function ProfileEditScreen() {
   const insets = useSafeAreaInsets();
   const { updateProfile } = useProfile();
   const [nickname, setNickname] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
   const [password, setPassword] = useState('');
   const [passwordConfirm, setPasswordConfirm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -45,6 +51,7 @@ export default function ProfileEditScreen() {
   const [focusedField, setFocusedField] = useState<React.RefObject<TextInput | null> | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const nicknameRef = useRef<TextInput | null>(null);
+  const currentPasswordRef = useRef<TextInput | null>(null);
   const passwordRef = useRef<TextInput | null>(null);
   const passwordConfirmRef = useRef<TextInput | null>(null);
 
@@ -84,31 +91,33 @@ export default function ProfileEditScreen() {
   }, [focusedField, scrollToInput]);
 
   useEffect(() => {
-    let isActive = true;
+    const controller = new AbortController();
+    const { signal } = controller;
 
     const load = async () => {
       setIsLoading(true);
       setLoadError(null);
       try {
-        const me = await getMe();
-        if (!isActive) return;
+        const me = await getMe({ signal });
+        if (signal.aborted) return;
         setNickname(me.nickname ?? '');
         updateProfile({ nickname: me.nickname ?? '', emoji: me.emoji ?? '' });
       } catch (error) {
-        if (!isActive) return;
+        if (signal.aborted) return;
         const message = getErrorMessage(error, '프로필 정보를 불러오지 못했어요.');
         setLoadError(message);
         Alert.alert('안내', message);
       } finally {
-        if (!isActive) return;
-        setIsLoading(false);
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
     };
 
     load();
 
     return () => {
-      isActive = false;
+      controller.abort();
     };
   }, [updateProfile]);
 
@@ -131,25 +140,65 @@ export default function ProfileEditScreen() {
       Alert.alert('안내', '닉네임을 입력해 주세요.');
       return;
     }
-    if (password || passwordConfirm) {
+    const wantsPasswordChange = Boolean(currentPassword || password || passwordConfirm);
+    if (wantsPasswordChange) {
+      if (!currentPassword) {
+        Alert.alert('안내', '현재 비밀번호를 입력해 주세요.');
+        return;
+      }
+      const policyError = validatePassword(password);
+      if (policyError) {
+        Alert.alert('안내', policyError);
+        return;
+      }
       if (password !== passwordConfirm) {
         Alert.alert('안내', '비밀번호가 서로 다릅니다.');
         return;
       }
-      Alert.alert('안내', '비밀번호 변경은 아직 지원되지 않습니다.');
-      return;
+      if (password === currentPassword) {
+        Alert.alert('안내', '현재 비밀번호와 다른 비밀번호를 입력해 주세요.');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    // The password goes first: if it fails nothing has been saved yet.
+    let passwordNotice: string | null = null;
+    if (wantsPasswordChange) {
+      try {
+        const signedOutOthers = await changePassword(currentPassword, password);
+        setCurrentPassword('');
+        setPassword('');
+        setPasswordConfirm('');
+        passwordNotice = signedOutOthers
+          ? '비밀번호가 변경되었어요. 다른 기기에서는 로그아웃되었어요.'
+          : '비밀번호가 변경되었어요. 다른 기기의 로그아웃은 완료하지 못했어요.';
+      } catch (error) {
+        Alert.alert('안내', getErrorMessage(error, '비밀번호 변경에 실패했어요.'));
+        setIsSaving(false);
+        return;
+      }
     }
 
     try {
-      setIsSaving(true);
       const updated = await updateMe({ nickname: nickname.trim() });
       updateProfile({ nickname: updated.nickname, emoji: updated.emoji ?? '' });
-      router.back();
     } catch (error) {
-      Alert.alert('안내', getErrorMessage(error, '프로필 수정에 실패했어요.'));
-    } finally {
+      const message = getErrorMessage(error, '프로필 수정에 실패했어요.');
+      Alert.alert(
+        '안내',
+        passwordNotice ? `비밀번호는 변경되었지만 프로필은 저장하지 못했어요.\n${message}` : message,
+      );
       setIsSaving(false);
+      return;
     }
+
+    setIsSaving(false);
+    if (!passwordNotice) {
+      router.back();
+      return;
+    }
+    Alert.alert('완료', passwordNotice, [{ text: '확인', onPress: () => router.back() }]);
   };
 
   return (
@@ -193,6 +242,27 @@ export default function ProfileEditScreen() {
                     setFocusedField(nicknameRef);
                     scrollToInput(nicknameRef);
                   }}
+                  onSubmitEditing={() => currentPasswordRef.current?.focus()}
+                  style={styles.input}
+                />
+              </View>
+
+              <View style={styles.field}>
+                <Text style={styles.label}>현재 비밀번호</Text>
+                <TextInput
+                  ref={currentPasswordRef}
+                  value={currentPassword}
+                  onChangeText={setCurrentPassword}
+                  placeholder="현재 비밀번호"
+                  placeholderTextColor={Palette.textTertiary}
+                  secureTextEntry
+                  textContentType="oneTimeCode"
+                  returnKeyType="next"
+                  blurOnSubmit={false}
+                  onFocus={() => {
+                    setFocusedField(currentPasswordRef);
+                    scrollToInput(currentPasswordRef);
+                  }}
                   onSubmitEditing={() => passwordRef.current?.focus()}
                   style={styles.input}
                 />
@@ -217,6 +287,7 @@ export default function ProfileEditScreen() {
                   onSubmitEditing={() => passwordConfirmRef.current?.focus()}
                   style={styles.input}
                 />
+                <Text style={styles.hint}>{passwordPolicyHint}</Text>
               </View>
 
               <View style={styles.field}>
@@ -319,6 +390,11 @@ const styles = StyleSheet.create({
     color: Palette.textPrimary,
     backgroundColor: Palette.background,
   },
+  hint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
   saveButton: {
     marginTop: 18,
     backgroundColor: Palette.accent,
@@ -22,33 +22,33 @@ export default function ReadingInsightsScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  const loadInsights = useCallback(async (isActiveRef?: { current: boolean }) => {
+  const loadInsights = useCallback(async (signal?: AbortSignal) => {
     setIsLoading(true);
     setInsightsError(null);
     setSummaryText('');
     try {
-      const data = await fetchInsights();
-      if (isActiveRef && !isActiveRef.current) return;
+      const data = await fetchInsights({ signal });
+      if (signal?.aborted) return;
       setInsights(data);
 
       try {
-        const aiSummary = await fetchInsightsAISummary(data);
-        if (isActiveRef && !isActiveRef.current) return;
+        const aiSummary = await fetchInsightsAISummary(data, { signal });
+        if (signal?.aborted) return;
         const normalizedSummary = aiSummary.trim() || buildInsightsFallbackSummary(data);
         setSummaryText(normalizedSummary);
       } catch {
-        if (isActiveRef && !isActiveRef.current) return;
+        if (signal?.aborted) return;
         setSummaryText(buildInsightsFallbackSummary(data));
       }
     } catch (error) {
-      if (isActiveRef && !isActiveRef.current) return;
+      if (signal?.aborted) return;
       const message =
         error instanceof ApiClientError ? error.message : '인사이트를 불러오지 못했어요.';
       console.warn(message);
       setInsights(null);
       setInsightsError(message);
     } finally {
-      if (!isActiveRef || isActiveRef.current) {
+      if (!signal?.aborted) {
         setIsLoading(false);
       }
     }
@@ -108,10 +108,10 @@ export default function ReadingInsightsScreen() {
 
   useFocusEffect(
     useCallback(() => {
-      const isActive = { current: true };
-      loadInsights(isActive);
+      const controller = new AbortController();
+      loadInsights(controller.signal);
       return () => {
-        isActive.current = false;
+        controller.abort();
       };
     }, [loadInsights]),
   );
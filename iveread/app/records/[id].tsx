@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useLocalSearchParams, type Href } from 'expo-router';
+
+import { LinkResolver } from '@/components/link-resolver';
+import { getRecord } from '@/services/records';
+
+// https://iveread.app/records/:id — opens the record's group with the record highlighted.
+export default function RecordLinkScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const resolve = useCallback(async (signal: AbortSignal): Promise<Href> => {
+    if (typeof id !== 'string') throw new Error('기록 링크가 올바르지 않아요.');
+    const record = await getRecord(id, { signal });
+    return { pathname: '/book/[id]', params: { id: record.groupId, recordId: record.id } };
+  }, [id]);
+
+  return <LinkResolver resolve={resolve} errorFallback="기록을 찾을 수 없어요." />;
+}
@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useLocalSearchParams, type Href } from 'expo-router';
+
+import { LinkResolver } from '@/components/link-resolver';
+import { getSentence } from '@/services/sentences';
+
+// https://iveread.app/sentences/:id — opens the sentence's group with the sentence highlighted.
+export default function SentenceLinkScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const resolve = useCallback(async (signal: AbortSignal): Promise<Href> => {
+    if (typeof id !== 'string') throw new Error('문장 링크가 올바르지 않아요.');
+    const sentence = await getSentence(id, { signal });
+    return { pathname: '/book/[id]', params: { id: sentence.groupId, sentenceId: sentence.id } };
+  }, [id]);
+
+  return <LinkResolver resolve={resolve} errorFallback="문장을 찾을 수 없어요." />;
+}
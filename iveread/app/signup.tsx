@@ -15,8 +15,10 @@ import {
   findNodeHandle,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Stack, useRouter } from 'expo-router';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 
+import { getSafeRedirect } from '@/constants/app-links';
+import { passwordPolicyHint, validatePassword } from '@/constants/password-policy';
 import { Palette, Shadows, Typography } from '@/constants/ui';
 import { ApiClientError } from '@/services/api-client';
 import { signup } from '@/services/auth';
@@ -33,6 +35,13 @@ const getErrorMessage = (error: unknown, fallback: string) => {
 
 export default function SignupScreen() {
   const router = useRouter();
+  const { redirect } = useLocalSearchParams<{ redirect?: string }>();
+  // Hands the screen the user was headed to back to login.
+  const loginHref = useMemo(
+    () =>
+      getSafeRedirect(redirect) ? { pathname: '/login' as const, params: { redirect } } : '/login',
+    [redirect],
+  );
   const insets = useSafeAreaInsets();
   const [isAgreed, setIsAgreed] = useState(false);
   const [nickname, setNickname] = useState('');
@@ -97,6 +106,11 @@ export default function SignupScreen() {
       Alert.alert('안내', '닉네임, 이메일, 비밀번호를 모두 입력해 주세요.');
       return;
     }
+    const policyError = validatePassword(password);
+    if (policyError) {
+      Alert.alert('안내', policyError);
+      return;
+    }
     if (password !== passwordConfirm) {
       Alert.alert('안내', '비밀번호가 서로 다릅니다.');
       return;
@@ -105,13 +119,22 @@ export default function SignupScreen() {
     try {
       setIsSubmitting(true);
       await signup({ email: email.trim(), password, nickname: nickname.trim() });
-      router.replace('/login');
+      router.replace(loginHref);
     } catch (error) {
       Alert.alert('안내', getErrorMessage(error, '회원가입에 실패했어요.'));
     } finally {
       setIsSubmitting(false);
     }
-  }, [email, isAgreed, isSubmitting, nickname, password, passwordConfirm, router]);
+  }, [
+    email,
+    isAgreed,
+    isSubmitting,
+    loginHref,
+    nickname,
+    password,
+    passwordConfirm,
+    router,
+  ]);
 
   return (
     <KeyboardAvoidingView
@@ -189,6 +212,7 @@ export default function SignupScreen() {
                   secureTextEntry
                   textContentType="oneTimeCode"
                 />
+                <Text style={styles.hint}>{passwordPolicyHint}</Text>
               </View>
               <View style={styles.inputGroup}>
                 <Text style={styles.label}>비밀번호 확인</Text>
@@ -233,7 +257,7 @@ export default function SignupScreen() {
               </Pressable>
               <Pressable
                 style={styles.secondaryButton}
-                onPress={() => router.replace('/login')}
+                onPress={() => router.replace(loginHref)}
                 accessibilityRole="button">
                 <Text style={styles.secondaryButtonText}>이미 계정이 있어요</Text>
               </Pressable>
@@ -295,6 +319,11 @@ const styles = StyleSheet.create({
     borderColor: Palette.textTertiary,
     color: Palette.textPrimary,
   },
+  hint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: Palette.textTertiary,
+  },
   checkboxRow: {
     flexDirection: 'row',
     alignItems: 'center',
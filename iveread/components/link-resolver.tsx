@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter, type Href } from 'expo-router';
+
+import { Palette, Typography } from '@/constants/ui';
+import { ApiClientError } from '@/services/api-client';
+
+type LinkResolverProps = {
+  // Looks up the linked item and returns the screen that shows it; aborted on unmount.
+  resolve: (signal: AbortSignal) => Promise<Href>;
+  errorFallback: string;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError) {
+    return error.message || fallback;
+  }
+  if (error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+/** Landing screen for deep links that need a lookup before they can be routed. */
+export function LinkResolver({ resolve, errorFallback }: LinkResolverProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    resolve(controller.signal)
+      .then((href) => {
+        if (!controller.signal.aborted) router.replace(href);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(getErrorMessage(err, errorFallback));
+      });
+    return () => {
+      controller.abort();
+    };
+  }, [errorFallback, resolve, router]);
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View style={styles.container}>
+        {error ? (
+          <>
+            <Text style={styles.message}>{error}</Text>
+            <Pressable
+              style={styles.button}
+              onPress={() => router.replace('/(tabs)')}
+              accessibilityRole="button">
+              <Text style={styles.buttonText}>홈으로 가기</Text>
+            </Pressable>
+          </>
+        ) : (
+          <ActivityIndicator color={Palette.accent} />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: Palette.background,
+  },
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 22,
+  },
+  message: {
+    ...Typography.body,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 14,
+    backgroundColor: Palette.accent,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Palette.surface,
+  },
+});
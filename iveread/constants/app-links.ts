@@ -0,0 +1,23 @@
+import type { Href } from 'expo-router';
+
+// Shareable https links. app.json registers this host for universal links (iOS) and
+// verified app links (Android); the same paths also open through the `iveread://` scheme.
+const APP_LINK_ORIGIN = process.env.EXPO_PUBLIC_APP_LINK_ORIGIN || 'https://iveread.app';
+
+const toAppLink = (...segments: string[]) =>
+  `${APP_LINK_ORIGIN.replace(/\/+$/, '')}/${segments.map(encodeURIComponent).join('/')}`;
+
+export const getGroupLink = (groupId: string) => toAppLink('groups', groupId);
+
+export const getRecordLink = (recordId: string) => toAppLink('records', recordId);
+
+export const getSentenceLink = (sentenceId: string) => toAppLink('sentences', sentenceId);
+
+export const getInviteLink = (code: string) => toAppLink('invite', code);
+
+// The screen a signed-out user tried to open, carried through login and signup as `redirect`.
+// Only in-app paths are followed, never full URLs.
+export const getSafeRedirect = (value: unknown): Href | null =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//')
+    ? (value as Href)
+    : null;
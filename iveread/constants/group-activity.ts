@@ -0,0 +1,24 @@
+import type { Group } from '@/types/group';
+
+// The window the server counts `Group.activity` over.
+export const GROUP_ACTIVITY_WINDOW_DAYS = 7;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days since the latest record or sentence; null before the first one or without activity data.
+export const getLastActiveDays = (group: Pick<Group, 'activity'>, now = Date.now()) => {
+  const lastActiveAt = group.activity?.lastActiveAt;
+  if (!lastActiveAt) return null;
+  const time = new Date(lastActiveAt).getTime();
+  if (Number.isNaN(time)) return null;
+  return Math.max(0, Math.floor((now - time) / DAY));
+};
+
+export const formatLastActive = (days: number | null) => {
+  if (days === null) return '아직 활동 없음';
+  if (days === 0) return '오늘';
+  return `${days}일 전`;
+};
+
+export const formatWeeklyActiveMembers = (group: Pick<Group, 'memberCount' | 'activity'>) =>
+  `${group.memberCount}명 중 ${group.activity?.activeMemberCount ?? 0}명 이번 주 기록`;
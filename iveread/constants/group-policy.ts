@@ -0,0 +1,55 @@
+import type { Group, GroupRole, GroupVisibility } from '@/types/group';
+
+export const GROUP_MEMBER_LIMIT_MIN = 2;
+export const GROUP_MEMBER_LIMIT_MAX = 12;
+export const GROUP_TAG_LIMIT = 5;
+export const GROUP_TAG_MAX_LENGTH = 12;
+
+// Error code the server sends when a join would exceed the member limit.
+export const GROUP_FULL_ERROR_CODE = 'GROUP_FULL';
+
+export const groupVisibilityOptions: { value: GroupVisibility; label: string; hint: string }[] = [
+  { value: 'public', label: '공개', hint: '검색에 노출되고 누구나 바로 참여할 수 있어요.' },
+  { value: 'approval', label: '승인제', hint: '검색에 노출되고, 관리자가 승인하면 참여할 수 있어요.' },
+  { value: 'invite', label: '초대 전용', hint: '검색에 노출되지 않아요. 초대 링크로만 참여할 수 있어요.' },
+];
+
+export const memberLimitOptions = Array.from(
+  { length: GROUP_MEMBER_LIMIT_MAX - GROUP_MEMBER_LIMIT_MIN + 1 },
+  (_, index) => index + GROUP_MEMBER_LIMIT_MIN,
+);
+
+// Splits free-form input like "#고전, 토론 소설" into unique tags without the leading '#'.
+export const parseGroupTags = (input: string) => {
+  const tags = input
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#+/, '').trim())
+    .filter(Boolean)
+    .map((tag) => tag.slice(0, GROUP_TAG_MAX_LENGTH));
+  return Array.from(new Set(tags)).slice(0, GROUP_TAG_LIMIT);
+};
+
+export const isGroupFull = (group: Pick<Group, 'memberCount' | 'memberLimit'>) =>
+  group.memberLimit !== null && group.memberCount >= group.memberLimit;
+
+export const formatMemberCount = (group: Pick<Group, 'memberCount' | 'memberLimit'>) =>
+  group.memberLimit !== null ? `${group.memberCount}/${group.memberLimit}명` : `${group.memberCount}명`;
+
+export const groupRoleLabels: Record<GroupRole, string> = {
+  owner: '방장',
+  admin: '관리자',
+  member: '멤버',
+};
+
+// Null when the user isn't a member or the group was loaded without its member list.
+export const getGroupRole = (group: Pick<Group, 'members'>, userId: string | null) =>
+  (userId && group.members?.find((member) => member.id === userId)?.role) || null;
+
+export const canManageGroup = (role: GroupRole | null) => role === 'owner' || role === 'admin';
+
+// Admins can remove regular members; the owner can remove anyone but themselves.
+export const canRemoveMember = (actor: GroupRole | null, target: GroupRole) => {
+  if (target === 'owner') return false;
+  if (actor === 'owner') return true;
+  return actor === 'admin' && target === 'member';
+};
@@ -0,0 +1,35 @@
+// Returns the message to show the user, or null when the range fits the book.
+export const validatePageRange = (
+  startPage: number,
+  endPage: number,
+  totalPage?: number | null,
+) => {
+  if (!Number.isInteger(startPage) || !Number.isInteger(endPage)) {
+    return '페이지는 숫자로 입력해 주세요.';
+  }
+  if (startPage < 1) {
+    return '시작 페이지는 1 이상이어야 해요.';
+  }
+  if (endPage < startPage) {
+    return '끝 페이지는 시작 페이지보다 작을 수 없어요.';
+  }
+  if (totalPage && endPage > totalPage) {
+    return `이 책은 ${totalPage}쪽까지 있어요.`;
+  }
+  return null;
+};
+
+// Same contract for a single sentence page, shared by the add and edit forms.
+export const validateSentencePage = (page: string, totalPage?: number | null) => {
+  const pageNo = Number(page.trim());
+  if (!page.trim() || !Number.isInteger(pageNo) || pageNo < 1) {
+    return '올바른 페이지 번호를 입력해 주세요.';
+  }
+  if (totalPage && pageNo > totalPage) {
+    return `이 책은 ${totalPage}쪽까지 있어요.`;
+  }
+  return null;
+};
+
+export const formatPageRange = (startPage: number, endPage: number) =>
+  startPage === endPage ? `p. ${startPage}` : `p. ${startPage}-${endPage}`;
@@ -0,0 +1,21 @@
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 64;
+
+export const passwordPolicyHint = `${PASSWORD_MIN_LENGTH}자 이상, 영문과 숫자를 함께 사용해 주세요.`;
+
+// Returns the message to show the user, or null when the password satisfies the policy.
+export const validatePassword = (password: string) => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `비밀번호는 ${PASSWORD_MIN_LENGTH}자 이상이어야 해요.`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `비밀번호는 ${PASSWORD_MAX_LENGTH}자 이하로 입력해 주세요.`;
+  }
+  if (/\s/.test(password)) {
+    return '비밀번호에는 공백을 사용할 수 없어요.';
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return '비밀번호에는 영문과 숫자가 모두 포함되어야 해요.';
+  }
+  return null;
+};
@@ -0,0 +1,41 @@
+// Shared by the calendar and the group feed; each user keeps at most one reaction per record.
+export const reactionOptions = ['👏', '😍', '🔥', '✨', '👍', '🥳'];
+
+export type ReactionGroup<T> = {
+  emoji: string;
+  reactions: T[];
+};
+
+// Groups reactions by emoji, in picker order with any other emoji after it.
+export const groupReactions = <T extends { emoji: string }>(reactions: T[]) => {
+  const groups = new Map<string, T[]>();
+  reactionOptions.forEach((emoji) => groups.set(emoji, []));
+  reactions.forEach((reaction) => {
+    groups.set(reaction.emoji, [...(groups.get(reaction.emoji) ?? []), reaction]);
+  });
+  return Array.from(groups, ([emoji, items]): ReactionGroup<T> => ({ emoji, reactions: items }))
+    .filter((group) => group.reactions.length > 0);
+};
+
+// Picker order with any other emoji after it, like `groupReactions`.
+export const orderReactionCounts = <T extends { emoji: string }>(counts: T[]) => {
+  const rank = (emoji: string) => {
+    const index = reactionOptions.indexOf(emoji);
+    return index === -1 ? reactionOptions.length : index;
+  };
+  return [...counts].sort((a, b) => rank(a.emoji) - rank(b.emoji));
+};
+
+// Moves the viewer's single reaction from `removed` to `added` in per-emoji totals.
+export const adjustReactionCounts = (
+  counts: { emoji: string; count: number }[],
+  removed: string | null,
+  added: string | null,
+) => {
+  const next = new Map(counts.map(({ emoji, count }) => [emoji, count]));
+  if (removed) next.set(removed, (next.get(removed) ?? 0) - 1);
+  if (added) next.set(added, (next.get(added) ?? 0) + 1);
+  return Array.from(next, ([emoji, count]) => ({ emoji, count })).filter(
+    (item) => item.count > 0,
+  );
+};
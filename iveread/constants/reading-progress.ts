@@ -0,0 +1,46 @@
+import type { Group, GroupMember } from '@/types/group';
+
+export type MemberProgress = GroupMember & {
+  // 0 to 1; members without a record count as 0.
+  progress: number;
+};
+
+export type ProgressOrder = 'ahead' | 'behind';
+
+const clampRatio = (value: number) => Math.min(1, Math.max(0, value));
+
+export const getReadingProgress = (currentPage: number | null, totalPage: number | null) => {
+  if (!totalPage || totalPage <= 0) return null;
+  return clampRatio((currentPage ?? 0) / totalPage);
+};
+
+/** Ranks members by how far they have read; ties keep the group's member order. */
+export const getMemberProgress = (group: Group, order: ProgressOrder = 'ahead') => {
+  if (!group.totalPage || !group.members?.length) return [];
+  const members: MemberProgress[] = group.members.map((member) => ({
+    ...member,
+    progress: getReadingProgress(member.currentPage, group.totalPage) ?? 0,
+  }));
+  const direction = order === 'ahead' ? -1 : 1;
+  return [...members].sort((a, b) => direction * (a.progress - b.progress));
+};
+
+// A quote is a spoiler when it comes from past the page the reader has recorded so far.
+export const isSpoilerPage = (pageNo: number, currentPage: number | null) =>
+  pageNo > (currentPage ?? 0);
+
+// Null when the list payload has no members or the book has no page count.
+export const getGroupAverageProgress = (group: Group) => {
+  const members = getMemberProgress(group);
+  if (members.length === 0) return null;
+  return members.reduce((sum, member) => sum + member.progress, 0) / members.length;
+};
+
+// Typed as a percentage literal so it can be used directly as a style width.
+export const formatProgressPercent = (progress: number): `${number}%` =>
+  `${Math.round(progress * 100)}%`;
+
+export const formatMemberProgress = (member: MemberProgress) =>
+  member.currentPage
+    ? `p. ${member.currentPage} · ${formatProgressPercent(member.progress)}`
+    : '아직 기록 없음';
@@ -5,7 +5,6 @@ import { getMe, updateMe } from '@/services/users';
 type ProfileState = {
   id: string;
   nickname: string;
-  password: string;
   emoji: string;
 };
 
@@ -21,7 +20,6 @@ const ProfileContext = createContext<ProfileContextValue | undefined>(undefined)
 const defaultProfile: ProfileState = {
   id: '',
   nickname: '',
-  password: '',
   emoji: '',
 };
 
@@ -1,12 +1,28 @@
-import React, { createContext, useContext, useMemo, useState } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { ImageSourcePropType } from 'react-native';
 
-const coverOptions = [
-  require('../assets/images/icon.png'),
-  require('../assets/images/react-logo.png'),
-  require('../assets/images/partial-react-logo.png'),
-  require('../assets/images/splash-icon.png'),
-];
+import {
+  formatLastActive,
+  formatWeeklyActiveMembers,
+  getLastActiveDays,
+} from '@/constants/group-activity';
+import { getGroupAverageProgress } from '@/constants/reading-progress';
+import { useSession } from '@/contexts/session-context';
+import { ApiClientError } from '@/services/api-client';
+import { getBookByIsbn } from '@/services/books';
+import { createGroup, getGroups, groupsQuery } from '@/services/groups';
+import { addQueryCacheListener, isQueryInvalidatedBy } from '@/services/query-cache';
+import type { CreateGroupInput, Group } from '@/types/group';
+
+type LoadState = 'loading' | 'success' | 'error';
 
 export type ReadingClub = {
   id: string;
@@ -15,89 +31,135 @@ export type ReadingClub = {
   author: string;
   tag: string;
   tags: string[];
-  progress: number;
+  // Average member progress, null when the book has no page count.
+  progress: number | null;
   members: string;
   memberCount: number;
-  memberLimit: number;
+  memberLimit: number | null;
   lastActive: string;
-  lastActiveDays: number;
+  // Days since the latest record or sentence, null when the group has none yet.
+  lastActiveDays: number | null;
+  // Records and sentences posted in the last seven days.
   activityScore: number;
   cover: ImageSourcePropType;
 };
 
-const initialClubs: ReadingClub[] = [
-  {
-    id: '1984',
-    groupName: '월요일 고전 읽기',
-    title: '1984',
-    author: '조지 오웰',
-    tag: '고전 디스토피아 소설 모임',
-    tags: ['고전', '소설', '토론'],
-    progress: 0.6,
-    members: '5명 중 3명 기록 완료',
-    memberCount: 5,
-    memberLimit: 6,
-    lastActive: '2일 전',
-    lastActiveDays: 2,
-    activityScore: 86,
-    cover: coverOptions[0],
-  },
-  {
-    id: 'sapiens',
-    groupName: '인류학 토론 모임',
-    title: '사피엔스',
-    author: '유발 하라리',
-    tag: '역사와 인류학 토론',
-    tags: ['인문', '논픽션'],
-    progress: 0.35,
-    members: '6명 중 2명 기록 완료',
-    memberCount: 6,
-    memberLimit: 8,
-    lastActive: '오늘',
-    lastActiveDays: 0,
-    activityScore: 92,
-    cover: coverOptions[1],
-  },
-  {
-    id: 'gatsby',
-    groupName: '아메리칸 클래식',
-    title: '위대한 개츠비',
-    author: 'F. 스콧 피츠제럴드',
-    tag: '미국 문학 고전 읽기',
-    tags: ['고전', '문학'],
-    progress: 0.8,
-    members: '5명 중 5명 기록 완료',
-    memberCount: 5,
-    memberLimit: 5,
-    lastActive: '5일 전',
-    lastActiveDays: 5,
-    activityScore: 74,
-    cover: coverOptions[2],
-  },
-];
-
 type ReadingClubsContextValue = {
   clubs: ReadingClub[];
-  addClub: (club: Omit<ReadingClub, 'id' | 'cover'> & { cover?: ImageSourcePropType }) => void;
+  status: LoadState;
+  error: string | null;
+  refresh: () => Promise<void>;
+  addClub: (input: CreateGroupInput) => Promise<Group>;
+  // Registers a screen that shows `clubs`; returns the unsubscribe function.
+  subscribe: () => () => void;
 };
 
 const ReadingClubsContext = createContext<ReadingClubsContextValue | undefined>(undefined);
 
-export function ReadingClubsProvider({ children }: { children: React.ReactNode }) {
-  const [clubs, setClubs] = useState<ReadingClub[]>(initialClubs);
-
-  const addClub = (club: Omit<ReadingClub, 'id' | 'cover'> & { cover?: ImageSourcePropType }) => {
-    setClubs((prev) => [
-      {
-        ...club,
-        id: `club-${Date.now()}`,
-        cover: club.cover ?? coverOptions[prev.length % coverOptions.length],
-      },
-      ...prev,
-    ]);
+const getErrorMessage = (err: unknown, fallback: string) => {
+  if (err instanceof ApiClientError) {
+    return err.message || fallback;
+  }
+  if (err instanceof Error) {
+    return err.message || fallback;
+  }
+  return fallback;
+};
+
+// Activity comes with the group payload and the book from the day-long book cache,
+// so building a club costs no request of its own once the book is cached.
+async function toClub(group: Group): Promise<ReadingClub> {
+  const book = await getBookByIsbn(group.bookIsbn).catch(() => null);
+  const lastActiveDays = getLastActiveDays(group);
+  return {
+    id: group.id,
+    groupName: group.name,
+    title: group.bookTitle,
+    author: book?.author ?? '',
+    tag: group.tags.map((tag) => `#${tag}`).join(' '),
+    tags: group.tags,
+    progress: getGroupAverageProgress(group),
+    members: formatWeeklyActiveMembers(group),
+    memberCount: group.memberCount,
+    memberLimit: group.memberLimit,
+    lastActive: formatLastActive(lastActiveDays),
+    lastActiveDays,
+    activityScore: group.activity?.postCount ?? 0,
+    cover: { uri: book?.coverImage || group.bookCover },
   };
+}
+
+export function ReadingClubsProvider({ children }: { children: React.ReactNode }) {
+  const { status: sessionStatus } = useSession();
+  const [clubs, setClubs] = useState<ReadingClub[]>([]);
+  const [status, setStatus] = useState<LoadState>('loading');
+  const [error, setError] = useState<string | null>(null);
+  // Clubs load only while a screen shows them.
+  const [subscriberCount, setSubscriberCount] = useState(0);
+  // Bumped on sign-out and on every refresh so slower responses can tell they are outdated.
+  const requestRef = useRef(0);
+  // Built clubs by group id with the payload they came from; unchanged groups are reused.
+  const builtClubsRef = useRef(new Map<string, { source: string; club: ReadingClub }>());
+  const isWanted = subscriberCount > 0;
 
-  const value = useMemo(() => ({ clubs, addClub }), [clubs]);
+  const refresh = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    setError(null);
+    try {
+      // One cached list request; a record mutation only changes its own group's payload.
+      const groups = await getGroups();
+      const nextClubs = await Promise.all(
+        groups.map(async (group) => {
+          const source = JSON.stringify(group);
+          const built = builtClubsRef.current.get(group.id);
+          if (built?.source === source) return built.club;
+          const club = await toClub(group);
+          builtClubsRef.current.set(group.id, { source, club });
+          return club;
+        }),
+      );
+      if (requestId !== requestRef.current) return;
+      setClubs(nextClubs);
+      setStatus('success');
+    } catch (err) {
+      if (requestId !== requestRef.current) return;
+      setStatus('error');
+      setError(getErrorMessage(err, '교환독서 목록을 불러오지 못했어요.'));
+    }
+  }, []);
+
+  const subscribe = useCallback(() => {
+    setSubscriberCount((count) => count + 1);
+    return () => setSubscriberCount((count) => count - 1);
+  }, []);
+
+  const addClub = useCallback(async (input: CreateGroupInput) => {
+    // createGroup invalidates the groups query, which triggers a refresh below.
+    return createGroup(input);
+  }, []);
+
+  useEffect(() => {
+    if (sessionStatus !== 'signedIn') {
+      requestRef.current += 1;
+      builtClubsRef.current.clear();
+      setClubs([]);
+      setStatus('loading');
+      setError(null);
+      return undefined;
+    }
+    if (!isWanted) return undefined;
+    refresh();
+    return addQueryCacheListener((event) => {
+      if (event.type === 'invalidated' && isQueryInvalidatedBy(groupsQuery.path, event.prefixes)) {
+        refresh();
+      }
+    });
+  }, [isWanted, refresh, sessionStatus]);
+
+  const value = useMemo(
+    () => ({ clubs, status, error, refresh, addClub, subscribe }),
+    [clubs, status, error, refresh, addClub, subscribe],
+  );
 
   return <ReadingClubsContext.Provider value={value}>{children}</ReadingClubsContext.Provider>;
 }
@@ -107,5 +169,16 @@ export function useReadingClubs() {
   if (!context) {
     throw new Error('useReadingClubs must be used within ReadingClubsProvider');
   }
+  const { subscribe } = context;
+  useEffect(() => subscribe(), [subscribe]);
   return context;
 }
+
+/** For screens that only create clubs; unlike `useReadingClubs` it does not load the list. */
+export function useReadingClubActions() {
+  const context = useContext(ReadingClubsContext);
+  if (!context) {
+    throw new Error('useReadingClubActions must be used within ReadingClubsProvider');
+  }
+  return { addClub: context.addClub };
+}
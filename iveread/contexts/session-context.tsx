@@ -0,0 +1,51 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+import { addSessionListener, bootstrapSession, type SessionEvent } from '@/services/session';
+
+type SessionStatus = 'loading' | 'signedIn' | 'signedOut';
+
+type SessionContextValue = {
+  status: SessionStatus;
+  lastEvent: SessionEvent | null;
+};
+
+const SessionContext = createContext<SessionContextValue | undefined>(undefined);
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<SessionStatus>('loading');
+  const [lastEvent, setLastEvent] = useState<SessionEvent | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    const unsubscribe = addSessionListener((event) => {
+      if (!isActive) return;
+      setLastEvent(event);
+      setStatus(event === 'signedIn' ? 'signedIn' : 'signedOut');
+    });
+    bootstrapSession()
+      .then((restored) => {
+        if (!isActive) return;
+        setStatus((prev) => (prev === 'loading' ? (restored ? 'signedIn' : 'signedOut') : prev));
+      })
+      .catch(() => {
+        if (!isActive) return;
+        setStatus((prev) => (prev === 'loading' ? 'signedOut' : prev));
+      });
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const value = useMemo(() => ({ status, lastEvent }), [status, lastEvent]);
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
+
+export function useSession() {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within SessionProvider');
+  }
+  return context;
+}
@@ -1,8 +1,8 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo } from 'react';
 import type { ImageSourcePropType } from 'react-native';
 
-import { ApiClientError } from '@/services/api-client';
-import { getFinishedBooks, getGroups } from '@/services/groups';
+import { useCachedQuery } from '@/hooks/use-cached-query';
+import { finishedBooksQuery, groupsQuery } from '@/services/groups';
 import type { FinishedGroup, Group } from '@/types/group';
 
 type LoadState = 'loading' | 'success' | 'error';
@@ -16,16 +16,6 @@ export type GroupBookOption = {
   coverUrl: string | undefined;
 };
 
-const getErrorMessage = (error: unknown, fallback: string) => {
-  if (error instanceof ApiClientError) {
-    return error.message || fallback;
-  }
-  if (error instanceof Error) {
-    return error.message || fallback;
-  }
-  return fallback;
-};
-
 const parseDate = (value?: string | null) => {
   if (!value) return null;
   const date = new Date(value);
@@ -105,32 +95,30 @@ const mergeBookOptions = (sources: GroupBookOption[][]) => {
 };
 
 export function useActiveGroupBooks({ fallbackCover }: { fallbackCover: ImageSourcePropType }) {
-  const [books, setBooks] = useState<GroupBookOption[]>([]);
-  const [status, setStatus] = useState<LoadState>('loading');
-  const [error, setError] = useState<string | null>(null);
-
-  const load = useCallback(async () => {
-    setStatus('loading');
-    setError(null);
-    try {
-      const [groups, finishedBooks] = await Promise.all([getGroups(), getFinishedBooks()]);
-      const startedGroups = groups.filter(isGroupStarted);
-      const mappedBooks = mergeBookOptions([
-        mapGroupsToBooks(startedGroups, fallbackCover),
-        mapFinishedToBooks(finishedBooks, fallbackCover),
-      ]);
-      setBooks(mappedBooks);
-      setStatus('success');
-    } catch (err) {
-      setBooks([]);
-      setStatus('error');
-      setError(getErrorMessage(err, '책 목록을 불러오지 못했어요.'));
-    }
-  }, [fallbackCover]);
+  const groupsResult = useCachedQuery(groupsQuery, '책 목록을 불러오지 못했어요.');
+  const finishedResult = useCachedQuery(finishedBooksQuery, '책 목록을 불러오지 못했어요.');
+  const { data: groups, refresh: refreshGroups } = groupsResult;
+  const { data: finishedBooks, refresh: refreshFinished } = finishedResult;
+
+  const books = useMemo(() => {
+    if (!groups || !finishedBooks) return [];
+    return mergeBookOptions([
+      mapGroupsToBooks(groups.filter(isGroupStarted), fallbackCover),
+      mapFinishedToBooks(finishedBooks, fallbackCover),
+    ]);
+  }, [fallbackCover, finishedBooks, groups]);
+
+  let status: LoadState = 'loading';
+  if (groupsResult.status === 'error' || finishedResult.status === 'error') {
+    status = 'error';
+  } else if (groups && finishedBooks) {
+    status = 'success';
+  }
+  const error = status === 'error' ? groupsResult.error ?? finishedResult.error : null;
 
-  useEffect(() => {
-    load();
-  }, [load]);
+  const refresh = useCallback(async () => {
+    await Promise.all([refreshGroups(), refreshFinished()]);
+  }, [refreshFinished, refreshGroups]);
 
-  return { books, status, error, refresh: load };
+  return { books, status, error, refresh };
 }
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { ApiClientError } from '@/services/api-client';
+import {
+  addQueryCacheListener,
+  fetchQuery,
+  getQueryKey,
+  isQueryInvalidatedBy,
+  peekQuery,
+  peekQuerySync,
+  type CachedQuery,
+} from '@/services/query-cache';
+import { getUserId } from '@/services/session';
+
+type LoadState = 'loading' | 'success' | 'error';
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof ApiClientError) {
+    return error.message || fallback;
+  }
+  if (error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+/**
+ * Renders cached data for a query right away (including the snapshot from the
+ * last launch) and revalidates it in the background. Refetches on its own when
+ * a mutation invalidates the query. Pass `null` to skip loading.
+ */
+export function useCachedQuery<T>(query: CachedQuery<T> | null, errorFallback: string) {
+  const key = query ? getQueryKey(query) : null;
+  const [data, setData] = useState<T | undefined>(() => (query ? peekQuerySync(query) : undefined));
+  const [status, setStatus] = useState<LoadState>(data === undefined ? 'loading' : 'success');
+  const [error, setError] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const queryRef = useRef(query);
+  const hasDataRef = useRef(data !== undefined);
+  // Aborted when the key changes or the screen unmounts; loads started outside the effect
+  // (refresh, revalidate) hang off it too.
+  const effectControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    queryRef.current = query;
+  });
+
+  const load = useCallback(
+    async (force: boolean) => {
+      const current = queryRef.current;
+      const parentSignal = effectControllerRef.current?.signal;
+      if (!current || !parentSignal || parentSignal.aborted) return;
+      // One controller per load, so the query cache can drop this waiter on its own.
+      const controller = new AbortController();
+      const { signal } = controller;
+      const handleParentAbort = () => controller.abort();
+      parentSignal.addEventListener('abort', handleParentAbort, { once: true });
+      setIsRefreshing(true);
+      try {
+        const result = await fetchQuery(current, { force, signal });
+        if (signal.aborted) return;
+        hasDataRef.current = true;
+        setData(result);
+        setStatus('success');
+        setError(null);
+      } catch (err) {
+        if (signal.aborted) return;
+        setError(getErrorMessage(err, errorFallback));
+        // A failed background refresh keeps showing the cached data.
+        if (!hasDataRef.current) {
+          setStatus('error');
+        }
+      } finally {
+        parentSignal.removeEventListener('abort', handleParentAbort);
+        if (!signal.aborted) {
+          setIsRefreshing(false);
+        }
+      }
+    },
+    [errorFallback],
+  );
+
+  useEffect(() => {
+    if (!key) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    effectControllerRef.current = controller;
+    const current = queryRef.current;
+    const cached = current ? peekQuerySync(current) : undefined;
+    hasDataRef.current = cached !== undefined;
+    setData(cached);
+    setStatus(cached === undefined ? 'loading' : 'success');
+    setError(null);
+    // Loads for the previous key were aborted and won't clear this themselves.
+    setIsRefreshing(false);
+
+    (async () => {
+      if (cached === undefined && current) {
+        const snapshot = await peekQuery(current);
+        if (signal.aborted) return;
+        if (snapshot !== undefined) {
+          hasDataRef.current = true;
+          setData(snapshot);
+          setStatus('success');
+        }
+      }
+      await load(false);
+    })();
+
+    const unsubscribe = addQueryCacheListener((event) => {
+      if (event.type === 'updated' && event.key === key) {
+        const next = queryRef.current ? peekQuerySync(queryRef.current) : undefined;
+        if (next !== undefined) {
+          hasDataRef.current = true;
+          setData(next);
+          setStatus('success');
+        }
+        return;
+      }
+      if (event.type === 'invalidated' && isQueryInvalidatedBy(key, event.prefixes)) {
+        load(false);
+        return;
+      }
+      // The account changed: the shown data belongs to someone else. Signed out, there is
+      // nothing to refetch.
+      if (event.type === 'cleared') {
+        hasDataRef.current = false;
+        setData(undefined);
+        setStatus('loading');
+        setError(null);
+        getUserId()
+          .then((userId) => {
+            if (userId && !signal.aborted) {
+              load(false);
+            }
+          })
+          .catch(() => {
+            // Without a readable session there is nothing to refetch.
+          });
+      }
+    });
+
+    return () => {
+      controller.abort();
+      if (effectControllerRef.current === controller) {
+        effectControllerRef.current = null;
+      }
+      unsubscribe();
+    };
+  }, [key, load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+  // Revalidates only when the cached entry has gone stale, e.g. on screen focus.
+  const revalidate = useCallback(() => load(false), [load]);
+
+  return { data, status, error, isRefreshing, refresh, revalidate };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  addOutboxListener,
+  discardOutboxEntry,
+  getOutboxEntries,
+  retryOutboxEntry,
+  type OutboxEntry,
+} from '@/services/outbox';
+
+type UseOutboxOptions = {
+  groupId: string | null;
+  onSent?: (entry: OutboxEntry, data: unknown) => void;
+};
+
+export function useOutbox({ groupId, onSent }: UseOutboxOptions) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const onSentRef = useRef(onSent);
+
+  useEffect(() => {
+    onSentRef.current = onSent;
+  }, [onSent]);
+
+  useEffect(() => {
+    if (!groupId) {
+      setEntries([]);
+      return;
+    }
+    let isActive = true;
+    const load = () => {
+      getOutboxEntries()
+        .then((items) => {
+          if (!isActive) return;
+          setEntries(items.filter((entry) => entry.scope.groupId === groupId));
+        })
+        .catch(() => {
+          if (!isActive) return;
+          setEntries([]);
+        });
+    };
+    const unsubscribe = addOutboxListener((event) => {
+      if (event.type === 'changed') {
+        load();
+        return;
+      }
+      if (event.entry.scope.groupId === groupId) {
+        onSentRef.current?.(event.entry, event.data);
+      }
+    });
+    load();
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [groupId]);
+
+  const retry = useCallback((id: string) => retryOutboxEntry(id), []);
+  const discard = useCallback((id: string) => discardOutboxEntry(id), []);
+
+  return { entries, retry, discard };
+}
@@ -0,0 +1,18 @@
+import { object, string } from '@/schemas/schema';
+import { userSchema } from '@/schemas/user';
+import type { AuthResponse, AuthTokens, PasswordResetVerifyResponse } from '@/types/auth';
+
+export const authTokensSchema = object<AuthTokens>({
+  accessToken: string,
+  refreshToken: string,
+});
+
+export const authResponseSchema = object<AuthResponse>({
+  accessToken: string,
+  refreshToken: string,
+  user: userSchema,
+});
+
+export const passwordResetVerifyResponseSchema = object<PasswordResetVerifyResponse>({
+  resetToken: string,
+});
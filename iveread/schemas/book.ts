@@ -0,0 +1,16 @@
+import { array, nullable, number, object, string } from '@/schemas/schema';
+import type { Book, BookSearchResponse } from '@/types/book';
+
+export const bookSchema = object<Book>({
+  isbn: string,
+  title: string,
+  author: string,
+  publisher: string,
+  coverImage: string,
+  totalPage: nullable(number),
+});
+
+export const bookSearchResponseSchema = object<BookSearchResponse>({
+  totalResults: number,
+  items: array(bookSchema),
+});
@@ -0,0 +1,12 @@
+import { nullable, object, string } from '@/schemas/schema';
+import type { CalendarRecordReaction } from '@/types/calendar-record-reaction';
+
+export const calendarRecordReactionSchema = object<CalendarRecordReaction>({
+  id: string,
+  emoji: string,
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  calendarRecordId: string,
+});
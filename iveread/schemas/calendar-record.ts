@@ -0,0 +1,16 @@
+import { nullable, object, string } from '@/schemas/schema';
+import type { CalendarRecord } from '@/types/calendar-record';
+
+export const calendarRecordSchema = object<CalendarRecord>({
+  id: string,
+  readDate: string,
+  note: nullable(string),
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  groupId: string,
+  bookIsbn: string,
+  bookTitle: string,
+  bookCoverImage: string,
+});
@@ -0,0 +1,12 @@
+import { nullable, object, string } from '@/schemas/schema';
+import type { SentenceComment } from '@/types/comment';
+
+export const sentenceCommentSchema = object<SentenceComment>({
+  id: string,
+  content: string,
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  sentenceId: string,
+});
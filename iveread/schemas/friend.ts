@@ -0,0 +1,10 @@
+import { nullable, object, optional, string } from '@/schemas/schema';
+import type { Friend } from '@/types/friend';
+
+export const friendSchema = object<Friend>({
+  id: string,
+  nickname: string,
+  email: string,
+  userProfileEmoji: nullable(string),
+  followedAt: optional(string),
+});
@@ -0,0 +1,28 @@
+import { boolean, nullable, number, object, string } from '@/schemas/schema';
+import type { GroupInvite, GroupInvitePreview, GroupJoinRequest } from '@/types/group-invite';
+
+export const groupInviteSchema = object<GroupInvite>({
+  groupId: string,
+  code: string,
+  createdAt: string,
+});
+
+export const groupInvitePreviewSchema = object<GroupInvitePreview>({
+  code: string,
+  groupId: string,
+  groupName: string,
+  bookTitle: string,
+  bookCover: string,
+  memberCount: number,
+  memberLimit: nullable(number),
+  isMember: boolean,
+});
+
+export const groupJoinRequestSchema = object<GroupJoinRequest>({
+  id: string,
+  groupId: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  createdAt: string,
+});
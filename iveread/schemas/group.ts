@@ -0,0 +1,66 @@
+import {
+  array,
+  boolean,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  withDefault,
+} from '@/schemas/schema';
+import type { FinishedGroup, Group, GroupActivity, GroupMember } from '@/types/group';
+
+const groupVisibilitySchema = union(
+  literal('public'),
+  union(literal('approval'), literal('invite')),
+);
+
+const groupRoleSchema = union(literal('owner'), union(literal('admin'), literal('member')));
+
+const groupMemberSchema = object<GroupMember>({
+  id: string,
+  nickname: string,
+  emoji: string,
+  role: groupRoleSchema,
+  currentPage: nullable(number),
+});
+
+const groupActivitySchema = object<GroupActivity>({
+  postCount: number,
+  activeMemberCount: number,
+  lastActiveAt: nullable(string),
+});
+
+export const groupSchema = object<Group>({
+  id: string,
+  name: string,
+  startDate: string,
+  goalDate: nullable(string),
+  bookIsbn: string,
+  bookTitle: string,
+  bookCover: string,
+  // Defaulted only where the default is true of a server that doesn't send the field yet:
+  // an unknown page count, no description, no tags.
+  totalPage: withDefault(nullable(number), () => null),
+  description: withDefault(nullable(string), () => null),
+  memberCount: number,
+  memberLimit: nullable(number),
+  tags: withDefault(array(string), () => []),
+  visibility: groupVisibilitySchema,
+  requestedByMe: boolean,
+  createdAt: string,
+  members: optional(array(groupMemberSchema)),
+  activity: optional(groupActivitySchema),
+});
+
+export const finishedGroupSchema = object<FinishedGroup>({
+  id: string,
+  groupId: string,
+  bookIsbn: string,
+  bookTitle: string,
+  bookCoverImage: string,
+  bookAuthor: string,
+  finishedAt: string,
+});
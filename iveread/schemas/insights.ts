@@ -0,0 +1,44 @@
+import { array, nullable, number, object, string } from '@/schemas/schema';
+import type { InsightsResponse, WeekdayDistribution } from '@/types/insights';
+
+type Habit = InsightsResponse['habit'];
+type Completion = InsightsResponse['completion'];
+type Activity = InsightsResponse['activity'];
+type TopBook = Activity['topBooks'][number];
+
+export const weekdayDistributionSchema = object<WeekdayDistribution>({
+  mon: number,
+  tue: number,
+  wed: number,
+  thu: number,
+  fri: number,
+  sat: number,
+  sun: number,
+});
+
+export const insightsResponseSchema = object<InsightsResponse>({
+  habit: object<Habit>({
+    totalReadingDays: number,
+    currentStreak: number,
+    bestStreak: number,
+    weeklyFrequency: number,
+    weekdayDistribution: weekdayDistributionSchema,
+  }),
+  completion: object<Completion>({
+    finishedBooks: number,
+    activeGroups: number,
+    completionRate: number,
+    avgFinishDays: nullable(number),
+  }),
+  activity: object<Activity>({
+    totalRecords: number,
+    totalSentences: number,
+    topBooks: array(
+      object<TopBook>({
+        isbn: string,
+        title: string,
+        recordCount: number,
+      }),
+    ),
+  }),
+});
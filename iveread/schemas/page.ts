@@ -0,0 +1,8 @@
+import { array, nullable, object, string, type Schema } from '@/schemas/schema';
+import type { CursorPage } from '@/types/api';
+
+export const cursorPageSchema = <T>(item: Schema<T>) =>
+  object<CursorPage<T>>({
+    items: array(item),
+    nextCursor: nullable(string),
+  });
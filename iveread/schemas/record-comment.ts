@@ -0,0 +1,14 @@
+import { nullable, object, string, withDefault } from '@/schemas/schema';
+import type { RecordComment } from '@/types/record-comment';
+
+export const recordCommentSchema = object<RecordComment>({
+  id: string,
+  content: string,
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  recordId: string,
+  // Servers without threading send no parent; every comment is top-level then.
+  parentCommentId: withDefault(nullable(string), () => null),
+});
@@ -0,0 +1,20 @@
+import { array, boolean, nullable, number, object, string } from '@/schemas/schema';
+import type { RecordLikeState, RecordLiker, RecordLikeSummary } from '@/types/record-like';
+
+export const recordLikeStateSchema = object<RecordLikeState>({
+  liked: boolean,
+  likeCount: number,
+});
+
+export const recordLikerSchema = object<RecordLiker>({
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  likedAt: string,
+});
+
+export const recordLikeSummarySchema = object<RecordLikeSummary>({
+  likeCount: number,
+  likedByMe: boolean,
+  likers: array(recordLikerSchema),
+});
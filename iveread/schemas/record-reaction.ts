@@ -0,0 +1,17 @@
+import { nullable, number, object, string } from '@/schemas/schema';
+import type { RecordReaction, RecordReactionCount } from '@/types/record-reaction';
+
+export const recordReactionCountSchema = object<RecordReactionCount>({
+  emoji: string,
+  count: number,
+});
+
+export const recordReactionSchema = object<RecordReaction>({
+  id: string,
+  emoji: string,
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  recordId: string,
+});
@@ -0,0 +1,25 @@
+import { recordReactionCountSchema, recordReactionSchema } from '@/schemas/record-reaction';
+import { array, boolean, nullable, number, object, optional, string } from '@/schemas/schema';
+import type { ReadingRecord } from '@/types/record';
+
+export const readingRecordSchema = object<ReadingRecord>({
+  id: string,
+  groupId: string,
+  readDate: string,
+  startPage: number,
+  endPage: number,
+  comment: optional(nullable(string)),
+  imageUrl: string,
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  bookIsbn: string,
+  bookTitle: string,
+  bookCoverImage: string,
+  commentCount: number,
+  likeCount: number,
+  likedByMe: boolean,
+  reactionCounts: array(recordReactionCountSchema),
+  myReaction: nullable(recordReactionSchema),
+});
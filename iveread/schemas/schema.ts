@@ -0,0 +1,148 @@
+/**
+ * Minimal runtime schemas for API payloads. Each schema mirrors a type from
+ * types/*.ts; `object<T>()` takes the type explicitly so the compiler flags a
+ * schema that no longer matches its type.
+ */
+
+export type SchemaIssue = {
+  // Where the mismatch is, e.g. `data[2].bookCover`.
+  path: string;
+  message: string;
+};
+
+export type Schema<T> = {
+  expected: string;
+  check: (value: unknown, path: string, issues: SchemaIssue[]) => value is T;
+  // Used by the enclosing `object()` when the field is missing; see `withDefault`.
+  fallback?: () => T;
+  // Returns a copy of `value` with missing defaulted fields filled in; the input is left as is.
+  fillDefaults?: (value: unknown) => unknown;
+};
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const primitive = <T>(expected: string, test: (value: unknown) => value is T): Schema<T> => ({
+  expected,
+  check: (value, path, issues): value is T => {
+    if (test(value)) return true;
+    issues.push({ path, message: `expected ${expected}, received ${describe(value)}` });
+    return false;
+  },
+});
+
+export const string = primitive('string', (value): value is string => typeof value === 'string');
+
+export const number = primitive(
+  'number',
+  (value): value is number => typeof value === 'number' && Number.isFinite(value),
+);
+
+export const boolean = primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+
+export const literal = <T extends string | number | boolean>(expected: T): Schema<T> =>
+  primitive(JSON.stringify(expected), (value): value is T => value === expected);
+
+export const unknown: Schema<unknown> = {
+  expected: 'unknown',
+  check: (value): value is unknown => true,
+};
+
+const fillDefaults = <T>(schema: Schema<T>, value: unknown) =>
+  schema.fillDefaults ? schema.fillDefaults(value) : value;
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  expected: `${schema.expected} | null`,
+  check: (value, path, issues): value is T | null =>
+    value === null || schema.check(value, path, issues),
+  fillDefaults: (value) => (value === null ? value : fillDefaults(schema, value)),
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  expected: `${schema.expected} | undefined`,
+  check: (value, path, issues): value is T | undefined =>
+    value === undefined || schema.check(value, path, issues),
+  fillDefaults: (value) => (value === undefined ? value : fillDefaults(schema, value)),
+});
+
+// For fields the backend added later: a payload without the field gets the fallback value
+// instead of failing validation, so older servers keep working. Only applies inside `object()`,
+// and only through `parseWithSchema`.
+export const withDefault = <T>(schema: Schema<T>, fallback: () => T): Schema<T> => ({
+  ...schema,
+  fallback,
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `${item.expected}[]`,
+  check: (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, received ${describe(value)}` });
+      return false;
+    }
+    let valid = true;
+    value.forEach((entry, index) => {
+      if (!item.check(entry, `${path}[${index}]`, issues)) {
+        valid = false;
+      }
+    });
+    return valid;
+  },
+  fillDefaults: (value) =>
+    Array.isArray(value) ? value.map((entry) => fillDefaults(item, entry)) : value,
+});
+
+// Unknown keys are allowed so the backend can add fields without breaking older builds.
+export const object = <T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  expected: 'object',
+  check: (value, path, issues): value is T => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, received ${describe(value)}` });
+      return false;
+    }
+    let valid = true;
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const field = (value as Record<string, unknown>)[key];
+      if (!shape[key].check(field, `${path}.${key}`, issues)) {
+        valid = false;
+      }
+    });
+    return valid;
+  },
+  fillDefaults: (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    const filled: Record<string, unknown> = { ...value };
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+      const { fallback } = shape[key];
+      filled[key] =
+        filled[key] === undefined && fallback ? fallback() : fillDefaults(shape[key], filled[key]);
+    });
+    return filled;
+  },
+});
+
+export const union = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+  expected: `${first.expected} | ${second.expected}`,
+  check: (value, path, issues): value is A | B => {
+    if (first.check(value, path, []) || second.check(value, path, [])) return true;
+    issues.push({
+      path,
+      message: `expected ${first.expected} | ${second.expected}, received ${describe(value)}`,
+    });
+    return false;
+  },
+});
+
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown, root = 'data'): SchemaResult<T> {
+  const issues: SchemaIssue[] = [];
+  const filled = fillDefaults(schema, value);
+  if (schema.check(filled, root, issues)) {
+    return { ok: true, value: filled };
+  }
+  return { ok: false, issues };
+}
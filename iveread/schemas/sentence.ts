@@ -0,0 +1,20 @@
+import { sentenceCommentSchema } from '@/schemas/comment';
+import { array, nullable, number, object, string } from '@/schemas/schema';
+import type { Sentence } from '@/types/sentence';
+
+export const sentenceSchema = object<Sentence>({
+  id: string,
+  groupId: string,
+  content: string,
+  pageNo: number,
+  thought: nullable(string),
+  createdAt: string,
+  userId: string,
+  userNickname: string,
+  userProfileEmoji: nullable(string),
+  bookIsbn: string,
+  bookTitle: string,
+  bookCoverImage: string,
+  commentCount: number,
+  commentPreview: array(sentenceCommentSchema),
+});
@@ -0,0 +1,11 @@
+import { nullable, object, string, type Schema } from '@/schemas/schema';
+import type { User, UserProfile } from '@/types/user';
+
+export const userSchema = object<User>({
+  id: string,
+  email: string,
+  nickname: string,
+  emoji: nullable(string),
+});
+
+export const userProfileSchema: Schema<UserProfile> = userSchema;
@@ -1,5 +1,12 @@
+import { authTokensSchema } from '@/schemas/auth';
+import { parseWithSchema, type Schema } from '@/schemas/schema';
 import { ApiError, ApiResponse } from '@/types/api';
-import { getUserId } from '@/services/session';
+import {
+  expireSession,
+  getAccessToken,
+  getRefreshToken,
+  setSessionTokens,
+} from '@/services/session';
 
 export class ApiClientError extends Error {
   status: number;
@@ -15,17 +22,92 @@ export class ApiClientError extends Error {
   }
 }
 
-type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+// Client-side failures that never reached a server response carry status 0 and one of these codes.
+export const ApiClientErrorCode = {
+  timeout: 'TIMEOUT',
+  network: 'NETWORK_ERROR',
+  aborted: 'ABORTED',
+  // The server answered, but the payload did not match the expected schema.
+  invalidResponse: 'INVALID_RESPONSE',
+} as const;
 
-type RequestOptions = {
+export const isTimeoutError = (error: unknown) =>
+  error instanceof ApiClientError && error.code === ApiClientErrorCode.timeout;
+
+export const isNetworkError = (error: unknown) =>
+  error instanceof ApiClientError && error.code === ApiClientErrorCode.network;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof ApiClientError && error.code === ApiClientErrorCode.aborted;
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export type RetryPolicy = {
+  retries: number;
+  // Delay before the first retry; doubles on every further attempt.
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type RequestOptions = {
   method?: HttpMethod;
   body?: unknown;
   query?: Record<string, string | number | boolean | null | undefined>;
   headers?: Record<string, string>;
   auth?: boolean;
+  signal?: AbortSignal;
+  // Covers one attempt including reading the body. Defaults to DEFAULT_TIMEOUT_MS.
+  timeoutMs?: number;
+  // Defaults to DEFAULT_RETRY_POLICY for GET/DELETE and to no retries otherwise.
+  retry?: Partial<RetryPolicy> | false;
+};
+
+export type RequestConfig<T> = RequestOptions & {
+  // Validates the unwrapped `data`; mismatches throw INVALID_RESPONSE.
+  schema?: Schema<T>;
+};
+
+export const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
 };
 
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'DELETE']);
+
+export type TransportRequest = {
+  method: HttpMethod;
+  path: string;
+  query?: RequestOptions['query'];
+  headers: Record<string, string>;
+  // Passed through unserialized; the fetch transport turns it into JSON or multipart.
+  body?: unknown;
+  signal: AbortSignal;
+};
+
+export type TransportResponse = {
+  status: number;
+  payload: unknown;
+};
+
+/**
+ * Carries one HTTP exchange. Rejects only when no response was received;
+ * the client maps that to TIMEOUT, ABORTED or NETWORK_ERROR.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+// EXPO_PUBLIC_API_MOCK=true swaps the network for the in-memory backend in services/mock.
+export const isMockApiEnabled = () =>
+  process.env.EXPO_PUBLIC_API_MOCK === 'true' || process.env.EXPO_PUBLIC_API_MOCK === '1';
+
+const MOCK_API_BASE_URL = 'http://mock.iveread.local';
+
 export const getApiBaseUrl = () => {
+  if (isMockApiEnabled()) {
+    return MOCK_API_BASE_URL;
+  }
   const baseUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
   if (!baseUrl) {
     throw new Error('EXPO_PUBLIC_API_BASE_URL is not set');
@@ -33,7 +115,7 @@ export const getApiBaseUrl = () => {
   return baseUrl.replace(/\/+$/, '');
 };
 
-const buildQueryString = (query: RequestOptions['query']) => {
+export const buildQueryString = (query: RequestOptions['query']) => {
   if (!query) return '';
   const params = new URLSearchParams();
   Object.entries(query).forEach(([key, value]) => {
@@ -84,37 +166,241 @@ const parseJson = async (response: Response) => {
   }
 };
 
-export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
-  const method = options.method ?? 'GET';
+export const createAbortError = () =>
+  new ApiClientError('요청이 취소되었어요.', { status: 0, code: ApiClientErrorCode.aborted });
+
+const fetchTransport: Transport = async (request) => {
+  const headers = { ...request.headers };
+  const init: RequestInit = { method: request.method, headers, signal: request.signal };
+  if (request.body !== undefined) {
+    if (isFormData(request.body)) {
+      init.body = request.body;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(request.body);
+    }
+  }
+
+  const response = await fetch(buildUrl(request.path, request.query), init);
+  const payload = await parseJson(response);
+  return { status: response.status, payload };
+};
+
+let transportOverride: Transport | null = null;
+
+/** Replaces the transport for every request, e.g. with a stub in tests. Pass null to restore. */
+export function setTransport(transport: Transport | null) {
+  transportOverride = transport;
+}
+
+// The env check is inlined at build time, so production bundles drop the in-memory backend.
+const loadMockTransport = async (): Promise<Transport | null> => {
+  if (process.env.EXPO_PUBLIC_API_MOCK === 'true' || process.env.EXPO_PUBLIC_API_MOCK === '1') {
+    const { getMockTransport } = await import('@/services/mock/transport');
+    return getMockTransport();
+  }
+  return null;
+};
+
+const getTransport = async (): Promise<Transport> => {
+  if (transportOverride) return transportOverride;
+  return (await loadMockTransport()) ?? fetchTransport;
+};
+
+const sendRequest = async (path: string, options: RequestOptions, accessToken: string | null) => {
   const headers: Record<string, string> = {
     Accept: 'application/json',
     ...(options.headers ?? {}),
   };
 
-  if (options.auth !== false) {
-    const userId = await getUserId();
-    if (userId) {
-      headers['x-user-id'] = userId;
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const handleAbort = () => controller.abort();
+  signal?.addEventListener('abort', handleAbort);
+
+  try {
+    const transport = await getTransport();
+    return await transport({
+      method: options.method ?? 'GET',
+      path,
+      query: options.query,
+      headers,
+      body: options.body,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiClientError('서버 응답이 지연되고 있어요. 잠시 후 다시 시도해 주세요.', {
+        status: 0,
+        code: ApiClientErrorCode.timeout,
+      });
+    }
+    if (signal?.aborted) {
+      throw createAbortError();
     }
+    throw new ApiClientError('네트워크 연결을 확인해 주세요.', {
+      status: 0,
+      code: ApiClientErrorCode.network,
+      details: error,
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', handleAbort);
   }
+};
 
-  const init: RequestInit = { method, headers };
-  if (options.body !== undefined) {
-    if (isFormData(options.body)) {
-      init.body = options.body;
-    } else {
-      headers['Content-Type'] = 'application/json';
-      init.body = JSON.stringify(options.body);
+const resolveRetryPolicy = (options: RequestOptions): RetryPolicy | null => {
+  if (options.retry === false) return null;
+  if (options.retry) return { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  return IDEMPOTENT_METHODS.has(options.method ?? 'GET') ? DEFAULT_RETRY_POLICY : null;
+};
+
+const isRetryableError = (error: unknown) => {
+  if (!(error instanceof ApiClientError)) return false;
+  if (error.code === ApiClientErrorCode.timeout || error.code === ApiClientErrorCode.network) {
+    return true;
+  }
+  return error.status >= 500;
+};
+
+// Full jitter keeps clients that failed together from retrying in lockstep.
+const getRetryDelay = (policy: RetryPolicy, attempt: number) => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+let refreshPromise: Promise<string | null> | null = null;
+
+const isRejectedRefresh = (error: unknown) =>
+  error instanceof ApiClientError && [400, 401, 403].includes(error.status);
+
+const performRefresh = async (): Promise<string | null> => {
+  const refreshToken = await getRefreshToken();
+  if (!refreshToken) {
+    // Nothing can renew the session, so a 401 here means it is over.
+    await expireSession();
+    return null;
+  }
+  try {
+    const tokens = await request('/api/auth/refresh', {
+      method: 'POST',
+      body: { refreshToken },
+      auth: false,
+      retry: false,
+      schema: authTokensSchema,
+    });
+    await setSessionTokens(tokens);
+    return tokens.accessToken;
+  } catch (error) {
+    if (isRejectedRefresh(error)) {
+      await expireSession();
+      return null;
     }
+    throw error;
   }
+};
 
-  const response = await fetch(buildUrl(path, options.query), init);
-  const payload = await parseJson(response);
+// Concurrent 401s share one refresh call instead of racing to rotate the refresh token.
+const refreshAccessToken = async (staleToken: string | null): Promise<string | null> => {
+  const currentToken = await getAccessToken();
+  if (currentToken && currentToken !== staleToken) {
+    return currentToken;
+  }
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Sends an API request and unwraps the `{ success, data }` envelope. GET and
+ * DELETE calls are retried with exponential backoff on 5xx, timeout and
+ * network errors unless `retry: false` is passed.
+ */
+export async function request<T>(path: string, options: RequestConfig<T> = {}): Promise<T> {
+  const policy = resolveRetryPolicy(options);
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await attemptRequest<T>(path, options);
+    } catch (error) {
+      if (!policy || attempt >= policy.retries || !isRetryableError(error)) {
+        throw error;
+      }
+      await wait(getRetryDelay(policy, attempt), options.signal);
+    }
+  }
+}
+
+const validatePayload = <T>(path: string, data: unknown, schema: Schema<T> | undefined, status: number) => {
+  if (!schema) {
+    return data as T;
+  }
+  const result = parseWithSchema(schema, data);
+  if (result.ok) {
+    return result.value;
+  }
+  if (__DEV__) {
+    console.warn(`[api] ${path} returned an unexpected payload`, result.issues);
+  }
+  const [firstIssue] = result.issues;
+  throw new ApiClientError('서버 응답 형식이 올바르지 않아요.', {
+    status,
+    code: ApiClientErrorCode.invalidResponse,
+    details: { path: firstIssue.path, issues: result.issues, endpoint: path },
+  });
+};
+
+async function attemptRequest<T>(path: string, options: RequestConfig<T>): Promise<T> {
+  const useAuth = options.auth !== false;
+  const accessToken = useAuth ? await getAccessToken() : null;
+  let { status, payload } = await sendRequest(path, options, accessToken);
+
+  if (status === 401 && useAuth) {
+    const refreshedToken = await refreshAccessToken(accessToken);
+    if (refreshedToken) {
+      ({ status, payload } = await sendRequest(path, options, refreshedToken));
+      if (status === 401) {
+        await expireSession();
+      }
+    }
+  }
 
-  if (!response.ok) {
+  if (status < 200 || status >= 300) {
     const apiError = extractApiError(payload);
-    throw new ApiClientError(apiError?.message ?? `Request failed (${response.status})`, {
-      status: response.status,
+    throw new ApiClientError(apiError?.message ?? `Request failed (${status})`, {
+      status,
       code: apiError?.code,
       details: payload,
     });
@@ -122,14 +408,14 @@ export async function request<T>(path: string, options: RequestOptions = {}): Pr
 
   if (isApiResponse(payload)) {
     if (payload.success) {
-      return payload.data as T;
+      return validatePayload(path, payload.data, options.schema, status);
     }
     throw new ApiClientError(payload.error.message, {
-      status: response.status,
+      status,
       code: payload.error.code,
       details: payload,
     });
   }
 
-  return payload as T;
+  return validatePayload(path, payload, options.schema, status);
 }
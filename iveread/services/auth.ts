@@ -1,31 +1,103 @@
+import {
+  authResponseSchema,
+  authTokensSchema,
+  passwordResetVerifyResponseSchema,
+} from '@/schemas/auth';
 import { request } from '@/services/api-client';
-import { clearUserId, setUserId } from '@/services/session';
+import { clearSession, getRefreshToken, setSession, setSessionTokens } from '@/services/session';
+import type {
+  ChangePasswordInput,
+  PasswordResetConfirmInput,
+  PasswordResetRequestInput,
+  PasswordResetVerifyInput,
+} from '@/types/auth';
 import { CreateUserInput, LoginInput, User } from '@/types/user';
 
 export async function login(payload: LoginInput): Promise<User> {
-  const user = await request<User>('/api/auth/login', {
+  const result = await request('/api/auth/login', {
     method: 'POST',
     body: payload,
     auth: false,
+    schema: authResponseSchema,
   });
-  await setUserId(user.id);
-  return user;
+  await setSession(result.user, result);
+  return result.user;
 }
 
 export async function signup(payload: CreateUserInput): Promise<User> {
-  const user = await request<User>('/api/auth/signup', {
+  const result = await request('/api/auth/signup', {
     method: 'POST',
     body: payload,
     auth: false,
+    schema: authResponseSchema,
   });
-  await setUserId(user.id);
-  return user;
+  await setSession(result.user, result);
+  return result.user;
 }
 
 export async function logout(): Promise<void> {
-  await request<null>('/api/auth/logout', {
+  try {
+    const refreshToken = await getRefreshToken();
+    await request<null>('/api/auth/logout', {
+      method: 'POST',
+      body: refreshToken ? { refreshToken } : undefined,
+    });
+  } finally {
+    await clearSession();
+  }
+}
+
+export async function requestPasswordReset(payload: PasswordResetRequestInput): Promise<void> {
+  await request<null>('/api/auth/password-reset/request', {
+    method: 'POST',
+    body: payload,
+    auth: false,
+  });
+}
+
+export async function verifyPasswordResetCode(payload: PasswordResetVerifyInput): Promise<string> {
+  const result = await request('/api/auth/password-reset/verify', {
+    method: 'POST',
+    body: payload,
+    auth: false,
+    schema: passwordResetVerifyResponseSchema,
+  });
+  return result.resetToken;
+}
+
+export async function resetPassword(payload: PasswordResetConfirmInput): Promise<void> {
+  await request<null>('/api/auth/password-reset/confirm', {
     method: 'POST',
+    body: payload,
     auth: false,
   });
-  await clearUserId();
+}
+
+export async function signOutOtherSessions(): Promise<void> {
+  const refreshToken = await getRefreshToken();
+  await request<null>('/api/auth/sessions/others', {
+    method: 'DELETE',
+    body: refreshToken ? { refreshToken } : undefined,
+  });
+}
+
+/**
+ * Changes the password, keeps this device signed in with rotated tokens and
+ * signs out every other session. Resolves to false when the password changed
+ * but the other sessions could not be signed out.
+ */
+export async function changePassword(currentPassword: string, newPassword: string): Promise<boolean> {
+  const payload: ChangePasswordInput = { currentPassword, newPassword };
+  const tokens = await request('/api/auth/password', {
+    method: 'PATCH',
+    body: payload,
+    schema: authTokensSchema,
+  });
+  await setSessionTokens(tokens);
+  try {
+    await signOutOtherSessions();
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -1,16 +1,35 @@
-import { request } from '@/services/api-client';
+import { bookSchema, bookSearchResponseSchema } from '@/schemas/book';
+import { request, type RequestOptions } from '@/services/api-client';
+import { fetchQuery, type CachedQuery, type FetchQueryOptions } from '@/services/query-cache';
 import { Book, BookSearchResponse } from '@/types/book';
 
-export async function getBookByIsbn(bookId: string): Promise<Book> {
-  return request<Book>(`/api/books/${encodeURIComponent(bookId)}`);
+// Book metadata practically never changes, so one fetch per day is plenty.
+export const bookQuery = (bookId: string): CachedQuery<Book> => ({
+  path: `/api/books/${encodeURIComponent(bookId)}`,
+  ttl: 24 * 60 * 60 * 1000,
+  schema: bookSchema,
+});
+
+export async function getBookByIsbn(
+  bookId: string,
+  options?: Pick<FetchQueryOptions, 'signal'>,
+): Promise<Book> {
+  return fetchQuery(bookQuery(bookId), options);
 }
 
-export async function searchBooks(query: string, page?: number, size?: number): Promise<BookSearchResponse> {
-  return request<BookSearchResponse>('/api/books/search', {
+export async function searchBooks(
+  query: string,
+  page?: number,
+  size?: number,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<BookSearchResponse> {
+  return request('/api/books/search', {
     query: {
       query,
       page,
       size,
     },
+    signal: options?.signal,
+    schema: bookSearchResponseSchema,
   });
 }
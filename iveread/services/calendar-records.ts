@@ -1,3 +1,6 @@
+import { calendarRecordSchema } from '@/schemas/calendar-record';
+import { calendarRecordReactionSchema } from '@/schemas/calendar-record-reaction';
+import { array } from '@/schemas/schema';
 import { request } from '@/services/api-client';
 import type { CalendarRecord, CreateCalendarRecordInput } from '@/types/calendar-record';
 import type {
@@ -27,37 +30,40 @@ export async function getCalendarRecords(
   userId: string,
   query?: CalendarRecordQuery
 ): Promise<CalendarRecord[]> {
-  return request<CalendarRecord[]>(`/api/users/${encodeURIComponent(userId)}/calendar-records`, {
+  return request(`/api/users/${encodeURIComponent(userId)}/calendar-records`, {
     query: buildCalendarQuery(query),
+    schema: array(calendarRecordSchema),
   });
 }
 
 export async function createCalendarRecord(
   payload: CreateCalendarRecordInput
 ): Promise<CalendarRecord> {
-  return request<CalendarRecord>('/api/calendar-records', {
+  return request('/api/calendar-records', {
     method: 'POST',
     body: payload,
+    schema: calendarRecordSchema,
   });
 }
 
 export async function getCalendarRecordReactions(
   recordId: string
 ): Promise<CalendarRecordReaction[]> {
-  return request<CalendarRecordReaction[]>(
-    `/api/calendar-records/${encodeURIComponent(recordId)}/reactions`
-  );
+  return request(`/api/calendar-records/${encodeURIComponent(recordId)}/reactions`, {
+    schema: array(calendarRecordReactionSchema),
+  });
 }
 
 export async function createCalendarRecordReaction(
   recordId: string,
   payload: CreateCalendarRecordReactionInput
 ): Promise<CalendarRecordReaction> {
-  return request<CalendarRecordReaction>(
+  return request(
     `/api/calendar-records/${encodeURIComponent(recordId)}/reactions`,
     {
       method: 'POST',
       body: payload,
+      schema: calendarRecordReactionSchema,
     },
   );
 }
@@ -66,11 +72,12 @@ export async function updateCalendarRecordReaction(
   reactionId: string,
   payload: UpdateCalendarRecordReactionInput
 ): Promise<CalendarRecordReaction> {
-  return request<CalendarRecordReaction>(
+  return request(
     `/api/calendar-record-reactions/${encodeURIComponent(reactionId)}`,
     {
       method: 'PATCH',
       body: payload,
+      schema: calendarRecordReactionSchema,
     },
   );
 }
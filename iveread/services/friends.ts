@@ -1,8 +1,10 @@
+import { friendSchema } from '@/schemas/friend';
+import { array } from '@/schemas/schema';
 import { request } from '@/services/api-client';
 import type { Friend } from '@/types/friend';
 
 export async function getFriends(): Promise<Friend[]> {
-  return request<Friend[]>('/api/friends');
+  return request('/api/friends', { schema: array(friendSchema) });
 }
 
 const isEmail = (value: string) => value.includes('@');
@@ -1,52 +1,232 @@
-import { request } from '@/services/api-client';
-import { CreateGroupInput, FinishedGroup, Group, UpdateGroupInput } from '@/types/group';
+import { GROUP_FULL_ERROR_CODE } from '@/constants/group-policy';
+import { finishedGroupSchema, groupSchema } from '@/schemas/group';
+import {
+  groupInvitePreviewSchema,
+  groupInviteSchema,
+  groupJoinRequestSchema,
+} from '@/schemas/group-invite';
+import { array } from '@/schemas/schema';
+import { ApiClientError, request, type RequestOptions } from '@/services/api-client';
+import {
+  fetchQuery,
+  invalidateQueries,
+  type CachedQuery,
+  type FetchQueryOptions,
+} from '@/services/query-cache';
+import {
+  CreateGroupInput,
+  FinishedGroup,
+  Group,
+  GroupRole,
+  UpdateGroupInput,
+} from '@/types/group';
+import type { GroupInvite, GroupInvitePreview, GroupJoinRequest } from '@/types/group-invite';
 
-export async function getGroups(): Promise<Group[]> {
-  return request<Group[]>('/api/groups');
+const GROUPS_PATH = '/api/groups';
+const FINISHED_BOOKS_PATH = '/api/users/me/finished-books';
+
+export const groupsQuery: CachedQuery<Group[]> = {
+  path: GROUPS_PATH,
+  ttl: 60 * 1000,
+  schema: array(groupSchema),
+};
+
+export const finishedBooksQuery: CachedQuery<FinishedGroup[]> = {
+  path: FINISHED_BOOKS_PATH,
+  ttl: 60 * 1000,
+  schema: array(finishedGroupSchema),
+};
+
+export const groupQuery = (groupId: string): CachedQuery<Group> => ({
+  path: `${GROUPS_PATH}/${encodeURIComponent(groupId)}`,
+  ttl: 30 * 1000,
+  schema: groupSchema,
+});
+
+// Both live under GROUPS_PATH, so group mutations refresh them too. Admins only.
+export const groupInviteQuery = (groupId: string): CachedQuery<GroupInvite> => ({
+  path: `${GROUPS_PATH}/${encodeURIComponent(groupId)}/invite`,
+  ttl: 5 * 60 * 1000,
+  schema: groupInviteSchema,
+});
+
+export const joinRequestsQuery = (groupId: string): CachedQuery<GroupJoinRequest[]> => ({
+  path: `${GROUPS_PATH}/${encodeURIComponent(groupId)}/join-requests`,
+  ttl: 30 * 1000,
+  schema: array(groupJoinRequestSchema),
+});
+
+// Membership and finish state feed both lists, so every group mutation refreshes both.
+const invalidateGroupQueries = () => {
+  invalidateQueries(GROUPS_PATH, FINISHED_BOOKS_PATH);
+};
+
+export async function getGroups(options?: FetchQueryOptions): Promise<Group[]> {
+  return fetchQuery(groupsQuery, options);
 }
 
-export async function searchGroups(query: string): Promise<Group[]> {
-  return request<Group[]>('/api/groups/search', {
+export async function searchGroups(
+  query: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<Group[]> {
+  return request('/api/groups/search', {
     query: { query },
+    signal: options?.signal,
+    schema: array(groupSchema),
   });
 }
 
-export async function getGroup(groupId: string): Promise<Group> {
-  return request<Group>(`/api/groups/${encodeURIComponent(groupId)}`);
+export async function getGroup(groupId: string, options?: FetchQueryOptions): Promise<Group> {
+  return fetchQuery(groupQuery(groupId), options);
 }
 
 export async function createGroup(payload: CreateGroupInput): Promise<Group> {
-  return request<Group>('/api/groups', {
+  const group = await request('/api/groups', {
     method: 'POST',
     body: payload,
+    schema: groupSchema,
   });
+  invalidateGroupQueries();
+  return group;
 }
 
 export async function updateGroup(groupId: string, payload: UpdateGroupInput): Promise<Group> {
-  return request<Group>(`/api/groups/${encodeURIComponent(groupId)}`, {
+  const group = await request(`/api/groups/${encodeURIComponent(groupId)}`, {
     method: 'PATCH',
     body: payload,
+    schema: groupSchema,
+  });
+  invalidateGroupQueries();
+  return group;
+}
+
+// Owner only; removes the group with its records and sentences for every member.
+export async function deleteGroup(groupId: string): Promise<void> {
+  await request<null>(`/api/groups/${encodeURIComponent(groupId)}`, {
+    method: 'DELETE',
   });
+  invalidateGroupQueries();
 }
 
+// Admins can remove regular members, the owner anyone but themselves.
+export async function removeGroupMember(groupId: string, memberId: string): Promise<Group> {
+  const group = await request(
+    `/api/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(memberId)}`,
+    { method: 'DELETE', schema: groupSchema },
+  );
+  invalidateGroupQueries();
+  return group;
+}
+
+// Owner only. The owner role moves through transferGroupOwnership instead.
+export async function updateGroupMemberRole(
+  groupId: string,
+  memberId: string,
+  role: Exclude<GroupRole, 'owner'>,
+): Promise<Group> {
+  const group = await request(
+    `/api/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(memberId)}`,
+    { method: 'PATCH', body: { role }, schema: groupSchema },
+  );
+  invalidateGroupQueries();
+  return group;
+}
+
+// Owner only; the previous owner stays on as an admin.
+export async function transferGroupOwnership(groupId: string, memberId: string): Promise<Group> {
+  const group = await request(`/api/groups/${encodeURIComponent(groupId)}/owner`, {
+    method: 'POST',
+    body: { memberId },
+    schema: groupSchema,
+  });
+  invalidateGroupQueries();
+  return group;
+}
+
+export const isGroupFullError = (error: unknown) =>
+  error instanceof ApiClientError && error.code === GROUP_FULL_ERROR_CODE;
+
+// Fails with a GROUP_FULL error (see isGroupFullError) once the member limit is reached.
 export async function joinGroup(groupId: string): Promise<void> {
   await request<null>(`/api/groups/${encodeURIComponent(groupId)}/join`, {
     method: 'POST',
   });
+  invalidateGroupQueries();
 }
 
 export async function leaveGroup(groupId: string): Promise<void> {
   await request<null>(`/api/groups/${encodeURIComponent(groupId)}/leave`, {
     method: 'DELETE',
   });
+  invalidateGroupQueries();
 }
 
 export async function finishGroupRead(groupId: string): Promise<void> {
   await request<null>(`/api/groups/${encodeURIComponent(groupId)}/finish`, {
     method: 'PATCH',
   });
+  invalidateGroupQueries();
+}
+
+export async function getFinishedBooks(options?: FetchQueryOptions): Promise<FinishedGroup[]> {
+  return fetchQuery(finishedBooksQuery, options);
+}
+
+// Only for `approval` groups; the group shows `requestedByMe` until an admin decides.
+export async function requestToJoinGroup(groupId: string): Promise<GroupJoinRequest> {
+  const joinRequest = await request(
+    `/api/groups/${encodeURIComponent(groupId)}/join-requests`,
+    { method: 'POST', schema: groupJoinRequestSchema },
+  );
+  invalidateGroupQueries();
+  return joinRequest;
+}
+
+const joinRequestPath = (groupId: string, requestId: string) =>
+  `/api/groups/${encodeURIComponent(groupId)}/join-requests/${encodeURIComponent(requestId)}`;
+
+export async function approveJoinRequest(groupId: string, requestId: string): Promise<Group> {
+  const group = await request(`${joinRequestPath(groupId, requestId)}/approve`, {
+    method: 'POST',
+    schema: groupSchema,
+  });
+  invalidateGroupQueries();
+  return group;
 }
 
-export async function getFinishedBooks(): Promise<FinishedGroup[]> {
-  return request<FinishedGroup[]>('/api/users/me/finished-books');
+export async function denyJoinRequest(groupId: string, requestId: string): Promise<void> {
+  await request<null>(joinRequestPath(groupId, requestId), {
+    method: 'DELETE',
+  });
+  invalidateGroupQueries();
+}
+
+// A new code invalidates every link shared before.
+export async function regenerateGroupInvite(groupId: string): Promise<GroupInvite> {
+  const invite = await request(`/api/groups/${encodeURIComponent(groupId)}/invite`, {
+    method: 'POST',
+    schema: groupInviteSchema,
+  });
+  invalidateGroupQueries();
+  return invite;
+}
+
+export async function getInvitePreview(
+  code: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<GroupInvitePreview> {
+  return request(`/api/invites/${encodeURIComponent(code)}`, {
+    signal: options?.signal,
+    schema: groupInvitePreviewSchema,
+  });
+}
+
+// Invite links skip approval but still respect the member limit.
+export async function joinGroupByInvite(code: string): Promise<Group> {
+  const group = await request(`/api/invites/${encodeURIComponent(code)}/join`, {
+    method: 'POST',
+    schema: groupSchema,
+  });
+  invalidateGroupQueries();
+  return group;
 }
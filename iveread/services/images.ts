@@ -1,9 +1,17 @@
-import { getApiBaseUrl, request } from '@/services/api-client';
+import { object, string } from '@/schemas/schema';
+import { getApiBaseUrl, isMockApiEnabled, request } from '@/services/api-client';
+
+// Photos from the camera can take a while on mobile networks.
+const UPLOAD_TIMEOUT_MS = 60 * 1000;
 
 type UploadImageResponse = {
   url: string;
 };
 
+const uploadImageResponseSchema = object<UploadImageResponse>({
+  url: string,
+});
+
 type UploadImageInput = {
   uri: string;
   name?: string | null;
@@ -14,6 +22,10 @@ const isLocalhost = (hostname: string) =>
   hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '0.0.0.0';
 
 export const normalizeUploadUrl = (url: string) => {
+  // Mock uploads hand back the local file uri, which must not be rewritten to the API host.
+  if (isMockApiEnabled()) {
+    return url;
+  }
   const baseUrl = getApiBaseUrl();
   try {
     const base = new URL(baseUrl);
@@ -58,14 +70,12 @@ export async function uploadImage({ uri, name, mimeType }: UploadImageInput): Pr
     } as any,
   );
 
-  const response = await request<UploadImageResponse>('/api/images', {
+  const response = await request('/api/images', {
     method: 'POST',
     body: formData,
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+    schema: uploadImageResponseSchema,
   });
 
-  if (!response?.url) {
-    throw new Error('Upload response missing url.');
-  }
-
   return normalizeUploadUrl(response.url);
 }
@@ -1,5 +1,8 @@
-import { request } from '@/services/api-client';
+import { insightsResponseSchema } from '@/schemas/insights';
+import { object, string, union } from '@/schemas/schema';
+import { request, type RequestOptions } from '@/services/api-client';
 import { getFinishedBooks, getGroups } from '@/services/groups';
+import { getUserRecords } from '@/services/records';
 import { getGroupSentences } from '@/services/sentences';
 import { getUserId } from '@/services/session';
 import type { InsightsResponse, WeekdayDistribution } from '@/types/insights';
@@ -10,6 +13,8 @@ type InsightsAISummaryPayload = {
   summary: string;
 };
 
+const insightsSummarySchema = union(string, object<InsightsAISummaryPayload>({ summary: string }));
+
 type InsightsSummaryRequest = {
   habit: {
     totalReadingDays: number;
@@ -31,11 +36,15 @@ type InsightsSummaryRequest = {
   };
 };
 
-export async function fetchInsights(): Promise<InsightsResponse> {
+export async function fetchInsights(
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<InsightsResponse> {
+  const signal = options?.signal;
   try {
-    return await buildInsightsFromUserData();
-  } catch {
-    return request<InsightsResponse>('/api/insights');
+    return await buildInsightsFromUserData(signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return request('/api/insights', { signal, schema: insightsResponseSchema });
   }
 }
 
@@ -49,18 +58,20 @@ const normalizeInsightsSummary = (payload: string | InsightsAISummaryPayload) =>
 
 export async function fetchInsightsAISummary(
   insights: InsightsResponse,
-  options?: { refresh?: boolean },
+  options?: { refresh?: boolean; signal?: AbortSignal },
 ): Promise<string> {
   const requestPayload: InsightsSummaryRequest = {
     habit: insights.habit,
     completion: insights.completion,
     activity: insights.activity,
   };
-  const responsePayload = await request<string | InsightsAISummaryPayload>('/api/insights/ai-summary', {
+  const responsePayload = await request('/api/insights/ai-summary', {
     method: 'POST',
     body: requestPayload,
     query: options?.refresh ? { refresh: true } : undefined,
     headers: options?.refresh ? { 'x-refresh-ai': 'true' } : undefined,
+    signal: options?.signal,
+    schema: insightsSummarySchema,
   });
   return normalizeInsightsSummary(responsePayload);
 }
@@ -187,30 +198,47 @@ const parseRecordDate = (value: string): Date | null => {
   return Number.isNaN(parsed.getTime()) ? null : parsed;
 };
 
-const fetchUserRecords = async (userId: string): Promise<ReadingRecord[]> => {
-  return request<ReadingRecord[]>(`/api/users/${encodeURIComponent(userId)}/records`);
+// Insights need the whole history, so walk every page.
+const fetchUserRecords = async (
+  userId: string,
+  signal?: AbortSignal,
+): Promise<ReadingRecord[]> => {
+  const records: ReadingRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getUserRecords(userId, { cursor, limit: 100 }, { signal });
+    records.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return records;
 };
 
-const fetchUserSentences = async (userId: string, groupIds: string[]): Promise<Sentence[]> => {
+const fetchUserSentences = async (
+  userId: string,
+  groupIds: string[],
+  signal?: AbortSignal,
+): Promise<Sentence[]> => {
   if (groupIds.length === 0) return [];
-  const responses = await Promise.all(groupIds.map((groupId) => getGroupSentences(groupId)));
+  const responses = await Promise.all(
+    groupIds.map((groupId) => getGroupSentences(groupId, { signal })),
+  );
   return responses.flat().filter((sentence) => sentence.userId === userId);
 };
 
-const buildInsightsFromUserData = async (): Promise<InsightsResponse> => {
+const buildInsightsFromUserData = async (signal?: AbortSignal): Promise<InsightsResponse> => {
   const userId = await getUserId();
   if (!userId) {
     throw new Error('Missing user id');
   }
 
   const [groups, finishedBooks, records] = await Promise.all([
-    getGroups(),
-    getFinishedBooks(),
-    fetchUserRecords(userId),
+    getGroups({ signal }),
+    getFinishedBooks({ signal }),
+    fetchUserRecords(userId, signal),
   ]);
 
   const groupIds = groups.map((group) => group.id);
-  const sentences = await fetchUserSentences(userId, groupIds);
+  const sentences = await fetchUserSentences(userId, groupIds, signal);
 
   const recordDates: Date[] = [];
   const uniqueDateKeys = new Set<string>();
@@ -0,0 +1,425 @@
+import type { Book } from '@/types/book';
+import type { GroupVisibility } from '@/types/group';
+
+// Rows of the in-memory backend. They hold ids instead of the denormalized
+// fields (nicknames, covers) the API returns; services/mock/routes.ts joins those in.
+
+export type MockUser = {
+  id: string;
+  email: string;
+  password: string;
+  nickname: string;
+  emoji: string | null;
+};
+
+export type MockGroup = {
+  id: string;
+  name: string;
+  startDate: string;
+  goalDate: string | null;
+  bookIsbn: string;
+  description: string | null;
+  memberLimit: number | null;
+  tags: string[];
+  visibility: GroupVisibility;
+  // Admins can regenerate it, which invalidates links shared earlier.
+  inviteCode: string;
+  createdAt: string;
+  ownerId: string;
+  // Members promoted by the owner; the owner is never listed here.
+  adminIds: string[];
+  memberIds: string[];
+  // userId -> finishedAt
+  finishedBy: Record<string, string>;
+};
+
+export type MockJoinRequest = {
+  id: string;
+  groupId: string;
+  userId: string;
+  createdAt: string;
+};
+
+export type MockRecord = {
+  id: string;
+  groupId: string;
+  userId: string;
+  readDate: string;
+  startPage: number;
+  endPage: number;
+  comment: string | null;
+  imageUrl: string;
+  createdAt: string;
+};
+
+export type MockSentence = {
+  id: string;
+  groupId: string;
+  userId: string;
+  content: string;
+  pageNo: number;
+  thought: string | null;
+  createdAt: string;
+};
+
+export type MockComment = {
+  id: string;
+  // The record or sentence the comment belongs to.
+  parentId: string;
+  // Record comments only: the top-level comment this one replies to.
+  parentCommentId?: string | null;
+  userId: string;
+  content: string;
+  createdAt: string;
+};
+
+export type MockReaction = {
+  id: string;
+  // The record or calendar record the reaction belongs to.
+  parentId: string;
+  userId: string;
+  emoji: string;
+  createdAt: string;
+};
+
+export type MockLike = {
+  recordId: string;
+  userId: string;
+  createdAt: string;
+};
+
+export type MockFriendship = {
+  userId: string;
+  friendId: string;
+  createdAt: string;
+};
+
+export type MockCalendarRecord = {
+  id: string;
+  userId: string;
+  groupId: string;
+  readDate: string;
+  note: string | null;
+  createdAt: string;
+};
+
+export type MockSeed = {
+  users: MockUser[];
+  books: Book[];
+  groups: MockGroup[];
+  joinRequests: MockJoinRequest[];
+  records: MockRecord[];
+  sentences: MockSentence[];
+  recordComments: MockComment[];
+  sentenceComments: MockComment[];
+  recordReactions: MockReaction[];
+  recordLikes: MockLike[];
+  friendships: MockFriendship[];
+  calendarRecords: MockCalendarRecord[];
+  calendarRecordReactions: MockReaction[];
+};
+
+/** Credentials of the seeded account, shown in the README for demos. */
+export const MOCK_DEMO_EMAIL = 'demo@iveread.app';
+export const MOCK_DEMO_PASSWORD = 'reading123';
+
+/** Every password reset in mock mode accepts this code. */
+export const MOCK_RESET_CODE = '123456';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number, now: number) => new Date(now - days * DAY).toISOString();
+
+const dateOnly = (iso: string) => iso.slice(0, 10);
+
+const coverUrl = (seed: string) => `https://picsum.photos/seed/${seed}/300/440`;
+
+const photoUrl = (seed: string) => `https://picsum.photos/seed/${seed}/600/600`;
+
+/**
+ * Builds the default data set. Dates are relative to `now` so streaks and
+ * "n분 전" labels look alive whenever the demo runs. Pass `overrides` to
+ * replace whole tables, e.g. `{ groups: [] }` for an empty home screen.
+ */
+export function createMockSeed(overrides: Partial<MockSeed> = {}, now = Date.now()): MockSeed {
+  const users: MockUser[] = [
+    {
+      id: 'user-demo',
+      email: MOCK_DEMO_EMAIL,
+      password: MOCK_DEMO_PASSWORD,
+      nickname: '책벌레',
+      emoji: '📚',
+    },
+    {
+      id: 'user-haru',
+      email: 'haru@iveread.app',
+      password: MOCK_DEMO_PASSWORD,
+      nickname: '하루',
+      emoji: '🌿',
+    },
+    {
+      id: 'user-minji',
+      email: 'minji@iveread.app',
+      password: MOCK_DEMO_PASSWORD,
+      nickname: '민지',
+      emoji: '🌙',
+    },
+    {
+      id: 'user-joon',
+      email: 'joon@iveread.app',
+      password: MOCK_DEMO_PASSWORD,
+      nickname: '준',
+      emoji: null,
+    },
+  ];
+
+  const books: Book[] = [
+    {
+      isbn: '9788936434120',
+      title: '소년이 온다',
+      author: '한강',
+      publisher: '창비',
+      coverImage: coverUrl('boy-comes'),
+      totalPage: 216,
+    },
+    {
+      isbn: '9788954651134',
+      title: '작별하지 않는다',
+      author: '한강',
+      publisher: '문학동네',
+      coverImage: coverUrl('farewell'),
+      totalPage: 332,
+    },
+    {
+      isbn: '9788937460449',
+      title: '데미안',
+      author: '헤르만 헤세',
+      publisher: '민음사',
+      coverImage: coverUrl('demian'),
+      totalPage: 248,
+    },
+    {
+      isbn: '9788932917245',
+      title: '어린 왕자',
+      author: '앙투안 드 생텍쥐페리',
+      publisher: '열린책들',
+      coverImage: coverUrl('little-prince'),
+      totalPage: 160,
+    },
+  ];
+
+  const groups: MockGroup[] = [
+    {
+      id: 'group-boy',
+      name: '새벽 독서 모임',
+      startDate: dateOnly(daysAgo(14, now)),
+      goalDate: dateOnly(daysAgo(-14, now)),
+      bookIsbn: '9788936434120',
+      description: '매일 새벽 30분씩 읽고 한 줄씩 남겨요.',
+      memberLimit: 4,
+      tags: ['소설', '새벽독서'],
+      visibility: 'approval',
+      inviteCode: 'DAWN2024',
+      createdAt: daysAgo(15, now),
+      ownerId: 'user-demo',
+      adminIds: ['user-haru'],
+      memberIds: ['user-demo', 'user-haru', 'user-minji'],
+      finishedBy: {},
+    },
+    {
+      id: 'group-demian',
+      name: '고전 함께 읽기',
+      startDate: dateOnly(daysAgo(40, now)),
+      goalDate: dateOnly(daysAgo(10, now)),
+      bookIsbn: '9788937460449',
+      description: null,
+      memberLimit: 2,
+      tags: ['고전'],
+      visibility: 'invite',
+      inviteCode: 'DEMIAN01',
+      createdAt: daysAgo(41, now),
+      ownerId: 'user-joon',
+      adminIds: [],
+      memberIds: ['user-demo', 'user-joon'],
+      finishedBy: { 'user-demo': daysAgo(9, now) },
+    },
+    {
+      id: 'group-farewell',
+      name: '주말 교환독서',
+      startDate: dateOnly(daysAgo(3, now)),
+      goalDate: null,
+      bookIsbn: '9788954651134',
+      description: '주말마다 한 챕터씩 읽고 이야기 나눠요.',
+      memberLimit: 6,
+      tags: ['소설', '주말'],
+      visibility: 'approval',
+      inviteCode: 'WEEKEND7',
+      createdAt: daysAgo(4, now),
+      ownerId: 'user-haru',
+      adminIds: [],
+      memberIds: ['user-haru', 'user-joon'],
+      finishedBy: {},
+    },
+  ];
+
+  const joinRequests: MockJoinRequest[] = [
+    {
+      id: 'join-request-1',
+      groupId: 'group-boy',
+      userId: 'user-joon',
+      createdAt: daysAgo(0.3, now),
+    },
+  ];
+
+  const records: MockRecord[] = [
+    {
+      id: 'record-1',
+      groupId: 'group-boy',
+      userId: 'user-haru',
+      readDate: dateOnly(daysAgo(2, now)),
+      startPage: 1,
+      endPage: 42,
+      comment: '첫 장부터 숨이 막혔어요.',
+      imageUrl: photoUrl('record-1'),
+      createdAt: daysAgo(2, now),
+    },
+    {
+      id: 'record-2',
+      groupId: 'group-boy',
+      userId: 'user-demo',
+      readDate: dateOnly(daysAgo(1, now)),
+      startPage: 43,
+      endPage: 88,
+      comment: '동호의 시선으로 따라가니 더 아프네요.',
+      imageUrl: photoUrl('record-2'),
+      createdAt: daysAgo(1, now),
+    },
+    {
+      id: 'record-3',
+      groupId: 'group-demian',
+      userId: 'user-demo',
+      readDate: dateOnly(daysAgo(12, now)),
+      startPage: 180,
+      endPage: 248,
+      comment: null,
+      imageUrl: photoUrl('record-3'),
+      createdAt: daysAgo(12, now),
+    },
+  ];
+
+  const sentences: MockSentence[] = [
+    {
+      id: 'sentence-1',
+      groupId: 'group-boy',
+      userId: 'user-minji',
+      content: '당신이 죽은 뒤 장례식을 치르지 못해, 내 삶이 장례식이 되었습니다.',
+      pageNo: 17,
+      thought: '이 문장에서 한참 멈춰 있었어요.',
+      createdAt: daysAgo(3, now),
+    },
+    {
+      id: 'sentence-2',
+      groupId: 'group-demian',
+      userId: 'user-demo',
+      content: '새는 알에서 나오려고 투쟁한다. 알은 세계이다.',
+      pageNo: 123,
+      thought: null,
+      createdAt: daysAgo(20, now),
+    },
+  ];
+
+  const recordComments: MockComment[] = [
+    {
+      id: 'record-comment-1',
+      parentId: 'record-1',
+      userId: 'user-demo',
+      content: '저도 같은 부분에서 멈췄어요.',
+      createdAt: daysAgo(1.5, now),
+    },
+    {
+      id: 'record-comment-2',
+      parentId: 'record-1',
+      parentCommentId: 'record-comment-1',
+      userId: 'user-haru',
+      content: '@책벌레 그 장면 다시 읽어도 좋더라고요.',
+      createdAt: daysAgo(1.2, now),
+    },
+  ];
+
+  const sentenceComments: MockComment[] = [
+    {
+      id: 'sentence-comment-1',
+      parentId: 'sentence-1',
+      userId: 'user-haru',
+      content: '이 책의 첫 문장 같은 힘이 있어요.',
+      createdAt: daysAgo(2.5, now),
+    },
+  ];
+
+  const recordReactions: MockReaction[] = [
+    {
+      id: 'record-reaction-1',
+      parentId: 'record-2',
+      userId: 'user-haru',
+      emoji: '🥲',
+      createdAt: daysAgo(0.5, now),
+    },
+  ];
+
+  const recordLikes: MockLike[] = [
+    { recordId: 'record-1', userId: 'user-demo', createdAt: daysAgo(1.8, now) },
+    { recordId: 'record-1', userId: 'user-minji', createdAt: daysAgo(1.2, now) },
+    { recordId: 'record-2', userId: 'user-haru', createdAt: daysAgo(0.6, now) },
+  ];
+
+  const friendships: MockFriendship[] = [
+    { userId: 'user-demo', friendId: 'user-haru', createdAt: daysAgo(30, now) },
+    { userId: 'user-demo', friendId: 'user-minji', createdAt: daysAgo(10, now) },
+  ];
+
+  const calendarRecords: MockCalendarRecord[] = [
+    {
+      id: 'calendar-record-1',
+      userId: 'user-demo',
+      groupId: 'group-boy',
+      readDate: dateOnly(daysAgo(1, now)),
+      note: '출근길 지하철에서 2장',
+      createdAt: daysAgo(1, now),
+    },
+    {
+      id: 'calendar-record-2',
+      userId: 'user-demo',
+      groupId: 'group-demian',
+      readDate: dateOnly(daysAgo(12, now)),
+      note: null,
+      createdAt: daysAgo(12, now),
+    },
+  ];
+
+  const calendarRecordReactions: MockReaction[] = [
+    {
+      id: 'calendar-reaction-1',
+      parentId: 'calendar-record-1',
+      userId: 'user-haru',
+      emoji: '👏',
+      createdAt: daysAgo(0.8, now),
+    },
+  ];
+
+  return {
+    users,
+    books,
+    groups,
+    joinRequests,
+    records,
+    sentences,
+    recordComments,
+    sentenceComments,
+    recordReactions,
+    recordLikes,
+    friendships,
+    calendarRecords,
+    calendarRecordReactions,
+    ...overrides,
+  };
+}
@@ -0,0 +1,1424 @@
+import { GROUP_ACTIVITY_WINDOW_DAYS } from '@/constants/group-activity';
+import {
+  GROUP_FULL_ERROR_CODE,
+  GROUP_MEMBER_LIMIT_MAX,
+  GROUP_MEMBER_LIMIT_MIN,
+  GROUP_TAG_LIMIT,
+  canRemoveMember,
+  isGroupFull,
+} from '@/constants/group-policy';
+import type { HttpMethod } from '@/services/api-client';
+import {
+  MOCK_RESET_CODE,
+  type MockComment,
+  type MockGroup,
+  type MockJoinRequest,
+  type MockReaction,
+  type MockRecord,
+  type MockSeed,
+  type MockSentence,
+} from '@/services/mock/fixtures';
+import type { AuthTokens } from '@/types/auth';
+import type { Book } from '@/types/book';
+import type { CalendarRecord } from '@/types/calendar-record';
+import type { CalendarRecordReaction } from '@/types/calendar-record-reaction';
+import type { SentenceComment } from '@/types/comment';
+import type { Friend } from '@/types/friend';
+import type {
+  FinishedGroup,
+  Group,
+  GroupActivity,
+  GroupRole,
+  GroupVisibility,
+} from '@/types/group';
+import type { GroupInvitePreview, GroupJoinRequest } from '@/types/group-invite';
+import type { InsightsResponse } from '@/types/insights';
+import type { ReadingRecord } from '@/types/record';
+import type { RecordComment } from '@/types/record-comment';
+import type { RecordLikeSummary } from '@/types/record-like';
+import type { RecordReaction } from '@/types/record-reaction';
+import type { Sentence } from '@/types/sentence';
+import type { User } from '@/types/user';
+
+export type MockRequest = {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+export type MockResponse = {
+  status: number;
+  payload: unknown;
+};
+
+export type MockState = MockSeed & {
+  accessTokens: Map<string, string>;
+  refreshTokens: Map<string, string>;
+  // resetToken -> email
+  resetTokens: Map<string, string>;
+  // Replayed POSTs carrying the same Idempotency-Key get the first response back.
+  idempotentResponses: Map<string, MockResponse>;
+  sequence: number;
+};
+
+class MockHttpError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+type RouteContext = {
+  state: MockState;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+  userId: string;
+};
+
+type Route = {
+  method: HttpMethod;
+  segments: string[];
+  // Public routes run without a bearer token; `userId` is then an empty string.
+  isPublic: boolean;
+  handler: (context: RouteContext) => unknown;
+};
+
+export function createMockState(seed: MockSeed): MockState {
+  // Deep copy so a running backend never mutates the caller's fixtures.
+  const copy = JSON.parse(JSON.stringify(seed)) as MockSeed;
+  return {
+    ...copy,
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+    resetTokens: new Map(),
+    idempotentResponses: new Map(),
+    sequence: 1,
+  };
+}
+
+const nextId = (state: MockState, prefix: string) => {
+  state.sequence += 1;
+  return `${prefix}-${Date.now().toString(36)}-${state.sequence}`;
+};
+
+const now = () => new Date().toISOString();
+
+const notFound = (what: string) =>
+  new MockHttpError(404, 'NOT_FOUND', `${what}을(를) 찾을 수 없어요.`);
+
+const forbidden = () => new MockHttpError(403, 'FORBIDDEN', '권한이 없어요.');
+
+const invalid = (field: string) =>
+  new MockHttpError(400, 'VALIDATION_ERROR', `${field} 값이 올바르지 않아요.`);
+
+const asRecord = (body: unknown): Record<string, unknown> =>
+  body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+
+const readString = (body: unknown, key: string) => {
+  const value = asRecord(body)[key];
+  if (typeof value !== 'string' || !value.trim()) throw invalid(key);
+  return value;
+};
+
+const readOptionalString = (body: unknown, key: string) => {
+  const value = asRecord(body)[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw invalid(key);
+  return value;
+};
+
+const readNumber = (body: unknown, key: string) => {
+  const value = asRecord(body)[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(key);
+  return value;
+};
+
+const readOptionalNumber = (body: unknown, key: string) => {
+  const value = asRecord(body)[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid(key);
+  return value;
+};
+
+const readOptionalMemberLimit = (body: unknown) => {
+  const value = readOptionalNumber(body, 'memberLimit');
+  if (value === undefined) return undefined;
+  if (!Number.isInteger(value) || value < GROUP_MEMBER_LIMIT_MIN || value > GROUP_MEMBER_LIMIT_MAX) {
+    throw invalid('memberLimit');
+  }
+  return value;
+};
+
+const readOptionalTags = (body: unknown) => {
+  const value = asRecord(body).tags;
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length > GROUP_TAG_LIMIT ||
+    value.some((tag) => typeof tag !== 'string' || !tag.trim())
+  ) {
+    throw invalid('tags');
+  }
+  return value as string[];
+};
+
+const readOptionalVisibility = (body: unknown): GroupVisibility | undefined => {
+  const value = asRecord(body).visibility;
+  if (value === undefined || value === null) return undefined;
+  if (value !== 'public' && value !== 'approval' && value !== 'invite') {
+    throw invalid('visibility');
+  }
+  return value;
+};
+
+const byNewest = <T extends { createdAt: string }>(items: T[]) =>
+  [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const matchesMonth = (date: string, query: Record<string, string>) => {
+  if (!query.year || !query.month) return true;
+  return date.startsWith(`${query.year}-${query.month.padStart(2, '0')}`);
+};
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Cursors are the id of the last item on the previous page; `items` must already be sorted.
+const paginate = <T extends { id: string; createdAt: string }>(
+  items: T[],
+  query: Record<string, string>,
+) => {
+  const limit = query.limit ? Number(query.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) throw invalid('limit');
+  const newer = query.since ? items.filter((item) => item.createdAt > query.since) : items;
+  let start = 0;
+  if (query.cursor) {
+    const index = newer.findIndex((item) => item.id === query.cursor);
+    if (index < 0) throw invalid('cursor');
+    start = index + 1;
+  }
+  const page = newer.slice(start, start + limit);
+  const hasMore = start + limit < newer.length;
+  return { page, nextCursor: hasMore ? page[page.length - 1].id : null };
+};
+
+// --- lookups and serializers ---
+
+const findUser = (state: MockState, userId: string) => {
+  const user = state.users.find((item) => item.id === userId);
+  if (!user) throw notFound('사용자');
+  return user;
+};
+
+const toUser = (state: MockState, userId: string): User => {
+  const { id, email, nickname, emoji } = findUser(state, userId);
+  return { id, email, nickname, emoji };
+};
+
+const findBook = (state: MockState, isbn: string): Book =>
+  state.books.find((book) => book.isbn === isbn) ?? {
+    isbn,
+    title: '',
+    author: '',
+    publisher: '',
+    coverImage: '',
+    totalPage: null,
+  };
+
+const findGroup = (state: MockState, groupId: string) => {
+  const group = state.groups.find((item) => item.id === groupId);
+  if (!group) throw notFound('그룹');
+  return group;
+};
+
+const requireMember = (group: MockGroup, userId: string) => {
+  if (!group.memberIds.includes(userId)) throw forbidden();
+};
+
+const roleOf = (group: MockGroup, userId: string): GroupRole => {
+  if (group.ownerId === userId) return 'owner';
+  return group.adminIds.includes(userId) ? 'admin' : 'member';
+};
+
+const requireRole = (group: MockGroup, userId: string, ...roles: GroupRole[]) => {
+  requireMember(group, userId);
+  if (!roles.includes(roleOf(group, userId))) throw forbidden();
+};
+
+const removeMember = (group: MockGroup, memberId: string) => {
+  group.memberIds = group.memberIds.filter((id) => id !== memberId);
+  group.adminIds = group.adminIds.filter((id) => id !== memberId);
+  delete group.finishedBy[memberId];
+};
+
+// Drops a group together with everything posted in it.
+const deleteGroupRows = (state: MockState, groupId: string) => {
+  const recordIds = new Set(
+    state.records.filter((record) => record.groupId === groupId).map((record) => record.id),
+  );
+  const sentenceIds = new Set(
+    state.sentences.filter((sentence) => sentence.groupId === groupId).map((sentence) => sentence.id),
+  );
+  state.groups = state.groups.filter((group) => group.id !== groupId);
+  state.joinRequests = state.joinRequests.filter((request) => request.groupId !== groupId);
+  state.records = state.records.filter((record) => !recordIds.has(record.id));
+  state.recordComments = state.recordComments.filter((item) => !recordIds.has(item.parentId));
+  state.recordReactions = state.recordReactions.filter((item) => !recordIds.has(item.parentId));
+  state.recordLikes = state.recordLikes.filter((like) => !recordIds.has(like.recordId));
+  state.sentences = state.sentences.filter((sentence) => !sentenceIds.has(sentence.id));
+  state.sentenceComments = state.sentenceComments.filter((item) => !sentenceIds.has(item.parentId));
+  state.calendarRecords = state.calendarRecords.filter((item) => item.groupId !== groupId);
+};
+
+const createInviteCode = () =>
+  Math.random().toString(36).slice(2, 10).toUpperCase().padEnd(8, '0');
+
+const findGroupByInvite = (state: MockState, code: string) => {
+  const group = state.groups.find((item) => item.inviteCode === code.toUpperCase());
+  if (!group) throw new MockHttpError(404, 'INVITE_NOT_FOUND', '유효하지 않은 초대 링크예요.');
+  return group;
+};
+
+// Shared by open joins, invite links and approved requests.
+const addMember = (state: MockState, group: MockGroup, userId: string) => {
+  if (group.memberIds.includes(userId)) {
+    throw new MockHttpError(409, 'ALREADY_MEMBER', '이미 참여 중인 그룹이에요.');
+  }
+  if (isGroupFull({ memberCount: group.memberIds.length, memberLimit: group.memberLimit })) {
+    throw new MockHttpError(409, GROUP_FULL_ERROR_CODE, '모집 인원이 모두 찼어요.');
+  }
+  group.memberIds.push(userId);
+  state.joinRequests = state.joinRequests.filter(
+    (request) => !(request.groupId === group.id && request.userId === userId),
+  );
+};
+
+const toJoinRequest = (state: MockState, request: MockJoinRequest): GroupJoinRequest => ({
+  id: request.id,
+  groupId: request.groupId,
+  ...authorFields(state, request.userId),
+  createdAt: request.createdAt,
+});
+
+const authorFields = (state: MockState, userId: string) => {
+  const user = findUser(state, userId);
+  return { userId, userNickname: user.nickname, userProfileEmoji: user.emoji };
+};
+
+const bookFields = (state: MockState, groupId: string) => {
+  const book = findBook(state, findGroup(state, groupId).bookIsbn);
+  return { bookIsbn: book.isbn, bookTitle: book.title, bookCoverImage: book.coverImage };
+};
+
+const toGroupActivity = (state: MockState, groupId: string): GroupActivity => {
+  const windowStart = new Date(
+    Date.now() - GROUP_ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+  const records = state.records.filter((record) => record.groupId === groupId);
+  const sentences = state.sentences.filter((sentence) => sentence.groupId === groupId);
+  const recentRecords = records.filter((record) => record.createdAt >= windowStart);
+  const [latest] = byNewest([...records, ...sentences]);
+  return {
+    postCount:
+      recentRecords.length +
+      sentences.filter((sentence) => sentence.createdAt >= windowStart).length,
+    activeMemberCount: new Set(recentRecords.map((record) => record.userId)).size,
+    lastActiveAt: latest?.createdAt ?? null,
+  };
+};
+
+const toGroup = (state: MockState, group: MockGroup, viewerId: string): Group => {
+  const book = findBook(state, group.bookIsbn);
+  return {
+    id: group.id,
+    name: group.name,
+    startDate: group.startDate,
+    goalDate: group.goalDate,
+    bookIsbn: book.isbn,
+    bookTitle: book.title,
+    bookCover: book.coverImage,
+    totalPage: book.totalPage,
+    description: group.description,
+    memberCount: group.memberIds.length,
+    memberLimit: group.memberLimit,
+    tags: group.tags,
+    visibility: group.visibility,
+    requestedByMe: state.joinRequests.some(
+      (request) => request.groupId === group.id && request.userId === viewerId,
+    ),
+    createdAt: group.createdAt,
+    members: group.memberIds.map((memberId) => {
+      const member = findUser(state, memberId);
+      const [latest] = byNewest(
+        state.records.filter((record) => record.groupId === group.id && record.userId === memberId),
+      );
+      return {
+        id: member.id,
+        nickname: member.nickname,
+        emoji: member.emoji ?? '',
+        role: roleOf(group, member.id),
+        currentPage: latest?.endPage ?? null,
+      };
+    }),
+    activity: toGroupActivity(state, group.id),
+  };
+};
+
+const toFinishedGroup = (state: MockState, group: MockGroup, userId: string): FinishedGroup => {
+  const book = findBook(state, group.bookIsbn);
+  return {
+    id: `${group.id}:${userId}`,
+    groupId: group.id,
+    bookIsbn: book.isbn,
+    bookTitle: book.title,
+    bookCoverImage: book.coverImage,
+    bookAuthor: book.author,
+    finishedAt: group.finishedBy[userId],
+  };
+};
+
+// Embeds the counts the feed needs so it doesn't have to ask per record.
+const toReactionCounts = (reactions: MockReaction[]) => {
+  const counts = new Map<string, number>();
+  reactions.forEach((reaction) => {
+    counts.set(reaction.emoji, (counts.get(reaction.emoji) ?? 0) + 1);
+  });
+  return Array.from(counts, ([emoji, count]) => ({ emoji, count }));
+};
+
+const toRecord = (state: MockState, record: MockRecord, viewerId: string): ReadingRecord => {
+  const reactions = state.recordReactions.filter((reaction) => reaction.parentId === record.id);
+  const myReaction = reactions.find((reaction) => reaction.userId === viewerId);
+  return {
+    id: record.id,
+    groupId: record.groupId,
+    readDate: record.readDate,
+    startPage: record.startPage,
+    endPage: record.endPage,
+    comment: record.comment,
+    imageUrl: record.imageUrl,
+    createdAt: record.createdAt,
+    ...authorFields(state, record.userId),
+    ...bookFields(state, record.groupId),
+    commentCount: state.recordComments.filter((comment) => comment.parentId === record.id).length,
+    likeCount: state.recordLikes.filter((like) => like.recordId === record.id).length,
+    likedByMe: state.recordLikes.some(
+      (like) => like.recordId === record.id && like.userId === viewerId,
+    ),
+    reactionCounts: toReactionCounts(reactions),
+    myReaction: myReaction ? toRecordReaction(state, myReaction) : null,
+  };
+};
+
+const SENTENCE_COMMENT_PREVIEW = 2;
+
+const toSentence = (state: MockState, sentence: MockSentence): Sentence => ({
+  id: sentence.id,
+  groupId: sentence.groupId,
+  content: sentence.content,
+  pageNo: sentence.pageNo,
+  thought: sentence.thought,
+  createdAt: sentence.createdAt,
+  ...authorFields(state, sentence.userId),
+  ...bookFields(state, sentence.groupId),
+  ...sentenceCommentFields(state, sentence.id),
+});
+
+const sentenceCommentFields = (state: MockState, sentenceId: string) => {
+  const comments = state.sentenceComments
+    .filter((comment) => comment.parentId === sentenceId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return {
+    commentCount: comments.length,
+    commentPreview: comments
+      .slice(-SENTENCE_COMMENT_PREVIEW)
+      .map((comment) => toSentenceComment(state, comment)),
+  };
+};
+
+const toRecordComment = (state: MockState, comment: MockComment): RecordComment => ({
+  id: comment.id,
+  content: comment.content,
+  createdAt: comment.createdAt,
+  ...authorFields(state, comment.userId),
+  recordId: comment.parentId,
+  parentCommentId: comment.parentCommentId ?? null,
+});
+
+const toSentenceComment = (state: MockState, comment: MockComment): SentenceComment => ({
+  id: comment.id,
+  content: comment.content,
+  createdAt: comment.createdAt,
+  ...authorFields(state, comment.userId),
+  sentenceId: comment.parentId,
+});
+
+const toRecordReaction = (state: MockState, reaction: MockReaction): RecordReaction => ({
+  id: reaction.id,
+  emoji: reaction.emoji,
+  createdAt: reaction.createdAt,
+  ...authorFields(state, reaction.userId),
+  recordId: reaction.parentId,
+});
+
+const toCalendarReaction = (state: MockState, reaction: MockReaction): CalendarRecordReaction => ({
+  id: reaction.id,
+  emoji: reaction.emoji,
+  createdAt: reaction.createdAt,
+  ...authorFields(state, reaction.userId),
+  calendarRecordId: reaction.parentId,
+});
+
+const toCalendarRecord = (
+  state: MockState,
+  record: MockSeed['calendarRecords'][number],
+): CalendarRecord => ({
+  id: record.id,
+  readDate: record.readDate,
+  note: record.note,
+  createdAt: record.createdAt,
+  ...authorFields(state, record.userId),
+  groupId: record.groupId,
+  ...bookFields(state, record.groupId),
+});
+
+// --- shared handlers ---
+
+const issueTokens = (state: MockState, userId: string): AuthTokens => {
+  const accessToken = nextId(state, `mock-access-${userId}`);
+  const refreshToken = nextId(state, `mock-refresh-${userId}`);
+  state.accessTokens.set(accessToken, userId);
+  state.refreshTokens.set(refreshToken, userId);
+  return { accessToken, refreshToken };
+};
+
+const revokeTokens = (state: MockState, userId: string, keepRefreshToken?: string) => {
+  state.refreshTokens.forEach((owner, token) => {
+    if (owner === userId && token !== keepRefreshToken) state.refreshTokens.delete(token);
+  });
+};
+
+const findRecord = (state: MockState, recordId: string) => {
+  const record = state.records.find((item) => item.id === recordId);
+  if (!record) throw notFound('기록');
+  return record;
+};
+
+const findSentence = (state: MockState, sentenceId: string) => {
+  const sentence = state.sentences.find((item) => item.id === sentenceId);
+  if (!sentence) throw notFound('문장');
+  return sentence;
+};
+
+const findOwned = <T extends { id: string; userId: string }>(
+  items: T[],
+  id: string,
+  userId: string,
+  what: string,
+) => {
+  const item = items.find((entry) => entry.id === id);
+  if (!item) throw notFound(what);
+  if (item.userId !== userId) throw forbidden();
+  return item;
+};
+
+const removeById = <T extends { id: string }>(items: T[], id: string) => {
+  const index = items.findIndex((item) => item.id === id);
+  if (index >= 0) items.splice(index, 1);
+};
+
+const getUploadedUri = (body: unknown) => {
+  // React Native's FormData exposes its parts; the picked file's uri doubles as the hosted url.
+  const parts = (body as { getParts?: () => { uri?: string }[] } | null)?.getParts?.();
+  return parts?.find((part) => typeof part.uri === 'string')?.uri;
+};
+
+const buildInsights = (state: MockState, userId: string): InsightsResponse => {
+  const records = state.records.filter((record) => record.userId === userId);
+  const days = Array.from(new Set(records.map((record) => record.readDate))).sort();
+  const weekdays = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+  const weekdayDistribution = { mon: 0, tue: 0, wed: 0, thu: 0, fri: 0, sat: 0, sun: 0 };
+  records.forEach((record) => {
+    weekdayDistribution[weekdays[new Date(record.readDate).getUTCDay()]] += 1;
+  });
+  const memberGroups = state.groups.filter((group) => group.memberIds.includes(userId));
+  const finishedBooks = memberGroups.filter((group) => group.finishedBy[userId]).length;
+  const activeGroups = memberGroups.length - finishedBooks;
+  const counts = new Map<string, number>();
+  records.forEach((record) => {
+    const isbn = findGroup(state, record.groupId).bookIsbn;
+    counts.set(isbn, (counts.get(isbn) ?? 0) + 1);
+  });
+  return {
+    habit: {
+      totalReadingDays: days.length,
+      currentStreak: 0,
+      bestStreak: days.length > 0 ? 1 : 0,
+      weeklyFrequency: days.length / 4,
+      weekdayDistribution,
+    },
+    completion: {
+      finishedBooks,
+      activeGroups,
+      completionRate: memberGroups.length ? finishedBooks / memberGroups.length : 0,
+      avgFinishDays: null,
+    },
+    activity: {
+      totalRecords: records.length,
+      totalSentences: state.sentences.filter((sentence) => sentence.userId === userId).length,
+      topBooks: Array.from(counts.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 3)
+        .map(([isbn, recordCount]) => ({ isbn, title: findBook(state, isbn).title, recordCount })),
+    },
+  };
+};
+
+// --- route table ---
+
+const routes: Route[] = [];
+
+const route = (
+  method: HttpMethod,
+  pattern: string,
+  handler: Route['handler'],
+  options: { isPublic?: boolean } = {},
+) => {
+  routes.push({
+    method,
+    segments: pattern.split('/').filter(Boolean),
+    isPublic: options.isPublic ?? false,
+    handler,
+  });
+};
+
+// auth
+route(
+  'POST',
+  '/api/auth/login',
+  ({ state, body }) => {
+    const email = readString(body, 'email').trim().toLowerCase();
+    const user = state.users.find((item) => item.email.toLowerCase() === email);
+    if (!user || user.password !== readString(body, 'password')) {
+      throw new MockHttpError(
+        401,
+        'INVALID_CREDENTIALS',
+        '이메일 또는 비밀번호가 올바르지 않아요.',
+      );
+    }
+    return { ...issueTokens(state, user.id), user: toUser(state, user.id) };
+  },
+  { isPublic: true },
+);
+
+route(
+  'POST',
+  '/api/auth/signup',
+  ({ state, body }) => {
+    const email = readString(body, 'email').trim().toLowerCase();
+    if (state.users.some((item) => item.email.toLowerCase() === email)) {
+      throw new MockHttpError(409, 'EMAIL_TAKEN', '이미 가입된 이메일이에요.');
+    }
+    const user = {
+      id: nextId(state, 'user'),
+      email,
+      password: readString(body, 'password'),
+      nickname: readString(body, 'nickname'),
+      emoji: readOptionalString(body, 'emoji') ?? null,
+    };
+    state.users.push(user);
+    return { ...issueTokens(state, user.id), user: toUser(state, user.id) };
+  },
+  { isPublic: true },
+);
+
+route(
+  'POST',
+  '/api/auth/refresh',
+  ({ state, body }) => {
+    const refreshToken = readString(body, 'refreshToken');
+    const userId = state.refreshTokens.get(refreshToken);
+    if (!userId) {
+      throw new MockHttpError(401, 'INVALID_REFRESH_TOKEN', '로그인이 만료되었어요.');
+    }
+    state.refreshTokens.delete(refreshToken);
+    return issueTokens(state, userId);
+  },
+  { isPublic: true },
+);
+
+route('POST', '/api/auth/logout', ({ state, body }) => {
+  const refreshToken = readOptionalString(body, 'refreshToken');
+  if (refreshToken) state.refreshTokens.delete(refreshToken);
+  return null;
+});
+
+route(
+  'POST',
+  '/api/auth/password-reset/request',
+  () => null,
+  { isPublic: true },
+);
+
+route(
+  'POST',
+  '/api/auth/password-reset/verify',
+  ({ state, body }) => {
+    const email = readString(body, 'email').trim().toLowerCase();
+    if (readString(body, 'code') !== MOCK_RESET_CODE) {
+      throw new MockHttpError(400, 'RESET_CODE_INVALID', '인증 코드가 올바르지 않아요.');
+    }
+    const resetToken = nextId(state, 'mock-reset');
+    state.resetTokens.set(resetToken, email);
+    return { resetToken };
+  },
+  { isPublic: true },
+);
+
+route(
+  'POST',
+  '/api/auth/password-reset/confirm',
+  ({ state, body }) => {
+    const resetToken = readString(body, 'resetToken');
+    const email = state.resetTokens.get(resetToken);
+    if (!email) {
+      throw new MockHttpError(400, 'RESET_TOKEN_INVALID', '재설정 요청이 만료되었어요.');
+    }
+    state.resetTokens.delete(resetToken);
+    const user = state.users.find((item) => item.email.toLowerCase() === email);
+    if (user) {
+      user.password = readString(body, 'newPassword');
+      revokeTokens(state, user.id);
+    }
+    return null;
+  },
+  { isPublic: true },
+);
+
+route('DELETE', '/api/auth/sessions/others', ({ state, body, userId }) => {
+  revokeTokens(state, userId, readOptionalString(body, 'refreshToken'));
+  return null;
+});
+
+route('PATCH', '/api/auth/password', ({ state, body, userId }) => {
+  const user = findUser(state, userId);
+  if (user.password !== readString(body, 'currentPassword')) {
+    throw new MockHttpError(400, 'INVALID_PASSWORD', '현재 비밀번호가 올바르지 않아요.');
+  }
+  user.password = readString(body, 'newPassword');
+  return issueTokens(state, userId);
+});
+
+// users
+route('GET', '/api/users/me', ({ state, userId }) => toUser(state, userId));
+
+route('PATCH', '/api/users/me', ({ state, body, userId }) => {
+  const user = findUser(state, userId);
+  const nickname = readOptionalString(body, 'nickname');
+  const emoji = readOptionalString(body, 'emoji');
+  if (nickname !== undefined) user.nickname = nickname;
+  if (emoji !== undefined) user.emoji = emoji || null;
+  return toUser(state, userId);
+});
+
+route('GET', '/api/users/me/finished-books', ({ state, userId }) =>
+  state.groups
+    .filter((group) => group.finishedBy[userId])
+    .map((group) => toFinishedGroup(state, group, userId)),
+);
+
+route('GET', '/api/users/:userId', ({ state, params }) => toUser(state, params.userId));
+
+route('GET', '/api/users/:userId/records', ({ state, params, query, userId }) => {
+  const { page, nextCursor } = paginate(
+    byNewest(state.records.filter((record) => record.userId === params.userId)).filter(
+      (record) => matchesMonth(record.readDate, query),
+    ),
+    query,
+  );
+  return { items: page.map((record) => toRecord(state, record, userId)), nextCursor };
+});
+
+route('GET', '/api/users/:userId/calendar-records', ({ state, params, query }) =>
+  byNewest(state.calendarRecords.filter((record) => record.userId === params.userId))
+    .filter((record) => matchesMonth(record.readDate, query))
+    .map((record) => toCalendarRecord(state, record)),
+);
+
+// books
+route('GET', '/api/books/search', ({ state, query }) => {
+  const keyword = (query.query ?? '').trim().toLowerCase();
+  const page = Math.max(1, Number(query.page) || 1);
+  const size = Math.max(1, Number(query.size) || 10);
+  const matches = state.books.filter(
+    (book) =>
+      book.title.toLowerCase().includes(keyword) || book.author.toLowerCase().includes(keyword),
+  );
+  return {
+    totalResults: matches.length,
+    items: matches.slice((page - 1) * size, page * size),
+  };
+});
+
+route('GET', '/api/books/:isbn', ({ state, params }) => {
+  const book = state.books.find((item) => item.isbn === params.isbn);
+  if (!book) throw notFound('책');
+  return book;
+});
+
+// groups
+route('GET', '/api/groups', ({ state, userId }) =>
+  byNewest(state.groups.filter((group) => group.memberIds.includes(userId))).map((group) =>
+    toGroup(state, group, userId),
+  ),
+);
+
+route('GET', '/api/groups/search', ({ state, query, userId }) => {
+  const keyword = (query.query ?? '').trim().toLowerCase();
+  return state.groups
+    .filter((group) => {
+      if (group.visibility === 'invite') return false;
+      const book = findBook(state, group.bookIsbn);
+      return (
+        group.name.toLowerCase().includes(keyword) ||
+        book.title.toLowerCase().includes(keyword) ||
+        group.tags.some((tag) => tag.toLowerCase().includes(keyword))
+      );
+    })
+    .map((group) => toGroup(state, group, userId));
+});
+
+route('POST', '/api/groups', ({ state, body, userId }) => {
+  const book = asRecord(asRecord(body).book);
+  const isbn = readString(book, 'isbn');
+  if (!state.books.some((item) => item.isbn === isbn)) {
+    state.books.push({
+      isbn,
+      title: readString(book, 'title'),
+      author: readOptionalString(book, 'author') ?? '',
+      publisher: readOptionalString(book, 'publisher') ?? '',
+      coverImage: readOptionalString(book, 'coverImage') ?? '',
+      totalPage: readOptionalNumber(book, 'totalPage') ?? null,
+    });
+  }
+  const group: MockGroup = {
+    id: nextId(state, 'group'),
+    name: readString(body, 'name'),
+    startDate: readString(body, 'startDate'),
+    goalDate: readOptionalString(body, 'goalDate') ?? null,
+    bookIsbn: isbn,
+    description: readOptionalString(body, 'description')?.trim() || null,
+    memberLimit: readOptionalMemberLimit(body) ?? null,
+    tags: readOptionalTags(body) ?? [],
+    visibility: readOptionalVisibility(body) ?? 'public',
+    inviteCode: createInviteCode(),
+    createdAt: now(),
+    ownerId: userId,
+    adminIds: [],
+    memberIds: [userId],
+    finishedBy: {},
+  };
+  state.groups.push(group);
+  return toGroup(state, group, userId);
+});
+
+route('GET', '/api/groups/:groupId', ({ state, params, userId }) =>
+  toGroup(state, findGroup(state, params.groupId), userId),
+);
+
+route('PATCH', '/api/groups/:groupId', ({ state, params, body, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  const name = readOptionalString(body, 'name');
+  const goalDate = readOptionalString(body, 'goalDate');
+  const description = readOptionalString(body, 'description');
+  const memberLimit = readOptionalMemberLimit(body);
+  const tags = readOptionalTags(body);
+  const visibility = readOptionalVisibility(body);
+  if (memberLimit !== undefined && memberLimit < group.memberIds.length) {
+    throw invalid('memberLimit');
+  }
+  if (name !== undefined) group.name = name;
+  if (goalDate !== undefined) group.goalDate = goalDate;
+  if (asRecord(body).goalDate === null) group.goalDate = null;
+  if (description !== undefined) group.description = description.trim() || null;
+  if (memberLimit !== undefined) group.memberLimit = memberLimit;
+  if (tags !== undefined) group.tags = tags;
+  if (visibility !== undefined) group.visibility = visibility;
+  return toGroup(state, group, userId);
+});
+
+route('DELETE', '/api/groups/:groupId', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner');
+  deleteGroupRows(state, group.id);
+  return null;
+});
+
+route('DELETE', '/api/groups/:groupId/members/:memberId', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  if (!group.memberIds.includes(params.memberId)) throw notFound('멤버');
+  if (!canRemoveMember(roleOf(group, userId), roleOf(group, params.memberId))) throw forbidden();
+  removeMember(group, params.memberId);
+  return toGroup(state, group, userId);
+});
+
+route('PATCH', '/api/groups/:groupId/members/:memberId', ({ state, params, body, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner');
+  if (!group.memberIds.includes(params.memberId)) throw notFound('멤버');
+  const role = asRecord(body).role;
+  if ((role !== 'admin' && role !== 'member') || params.memberId === group.ownerId) {
+    throw invalid('role');
+  }
+  group.adminIds = group.adminIds.filter((id) => id !== params.memberId);
+  if (role === 'admin') group.adminIds.push(params.memberId);
+  return toGroup(state, group, userId);
+});
+
+route('POST', '/api/groups/:groupId/owner', ({ state, params, body, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner');
+  const memberId = readString(body, 'memberId');
+  if (!group.memberIds.includes(memberId) || memberId === userId) throw invalid('memberId');
+  // The previous owner stays on as an admin.
+  group.adminIds = [...group.adminIds.filter((id) => id !== memberId), userId];
+  group.ownerId = memberId;
+  return toGroup(state, group, userId);
+});
+
+route('POST', '/api/groups/:groupId/join', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  if (group.visibility === 'approval' && !group.memberIds.includes(userId)) {
+    throw new MockHttpError(403, 'APPROVAL_REQUIRED', '관리자의 승인이 필요한 그룹이에요.');
+  }
+  if (group.visibility === 'invite' && !group.memberIds.includes(userId)) {
+    throw new MockHttpError(403, 'INVITE_REQUIRED', '초대 링크로만 참여할 수 있는 그룹이에요.');
+  }
+  addMember(state, group, userId);
+  return null;
+});
+
+// join requests
+route('GET', '/api/groups/:groupId/join-requests', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  return state.joinRequests
+    .filter((request) => request.groupId === group.id)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((request) => toJoinRequest(state, request));
+});
+
+route('POST', '/api/groups/:groupId/join-requests', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  if (group.visibility !== 'approval') throw forbidden();
+  if (group.memberIds.includes(userId)) {
+    throw new MockHttpError(409, 'ALREADY_MEMBER', '이미 참여 중인 그룹이에요.');
+  }
+  if (state.joinRequests.some((item) => item.groupId === group.id && item.userId === userId)) {
+    throw new MockHttpError(409, 'ALREADY_REQUESTED', '이미 가입을 요청했어요.');
+  }
+  if (isGroupFull({ memberCount: group.memberIds.length, memberLimit: group.memberLimit })) {
+    throw new MockHttpError(409, GROUP_FULL_ERROR_CODE, '모집 인원이 모두 찼어요.');
+  }
+  const request: MockJoinRequest = {
+    id: nextId(state, 'join-request'),
+    groupId: group.id,
+    userId,
+    createdAt: now(),
+  };
+  state.joinRequests.push(request);
+  return toJoinRequest(state, request);
+});
+
+route(
+  'POST',
+  '/api/groups/:groupId/join-requests/:requestId/approve',
+  ({ state, params, userId }) => {
+    const group = findGroup(state, params.groupId);
+    requireRole(group, userId, 'owner', 'admin');
+    const request = state.joinRequests.find(
+      (item) => item.id === params.requestId && item.groupId === group.id,
+    );
+    if (!request) throw notFound('가입 요청');
+    addMember(state, group, request.userId);
+    return toGroup(state, group, userId);
+  },
+);
+
+route('DELETE', '/api/groups/:groupId/join-requests/:requestId', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  const exists = state.joinRequests.some(
+    (item) => item.id === params.requestId && item.groupId === group.id,
+  );
+  if (!exists) throw notFound('가입 요청');
+  state.joinRequests = state.joinRequests.filter((item) => item.id !== params.requestId);
+  return null;
+});
+
+// invites
+route('GET', '/api/groups/:groupId/invite', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  return { groupId: group.id, code: group.inviteCode, createdAt: group.createdAt };
+});
+
+route('POST', '/api/groups/:groupId/invite', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireRole(group, userId, 'owner', 'admin');
+  group.inviteCode = createInviteCode();
+  return { groupId: group.id, code: group.inviteCode, createdAt: now() };
+});
+
+route('GET', '/api/invites/:code', ({ state, params, userId }): GroupInvitePreview => {
+  const group = findGroupByInvite(state, params.code);
+  const book = findBook(state, group.bookIsbn);
+  return {
+    code: group.inviteCode,
+    groupId: group.id,
+    groupName: group.name,
+    bookTitle: book.title,
+    bookCover: book.coverImage,
+    memberCount: group.memberIds.length,
+    memberLimit: group.memberLimit,
+    isMember: group.memberIds.includes(userId),
+  };
+});
+
+// An invite link skips the approval step.
+route('POST', '/api/invites/:code/join', ({ state, params, userId }) => {
+  const group = findGroupByInvite(state, params.code);
+  addMember(state, group, userId);
+  return toGroup(state, group, userId);
+});
+
+route('DELETE', '/api/groups/:groupId/leave', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireMember(group, userId);
+  if (group.ownerId === userId && group.memberIds.length > 1) {
+    throw new MockHttpError(
+      409,
+      'OWNER_CANNOT_LEAVE',
+      '방장은 다른 멤버에게 방장을 넘긴 뒤 나갈 수 있어요.',
+    );
+  }
+  removeMember(group, userId);
+  if (group.memberIds.length === 0) {
+    deleteGroupRows(state, group.id);
+  }
+  return null;
+});
+
+route('PATCH', '/api/groups/:groupId/finish', ({ state, params, userId }) => {
+  const group = findGroup(state, params.groupId);
+  requireMember(group, userId);
+  group.finishedBy[userId] = group.finishedBy[userId] ?? now();
+  return null;
+});
+
+// records
+route('GET', '/api/groups/:groupId/records', ({ state, params, query, userId }) => {
+  findGroup(state, params.groupId);
+  const { page, nextCursor } = paginate(
+    byNewest(state.records.filter((record) => record.groupId === params.groupId))
+      .filter((record) => matchesMonth(record.readDate, query))
+      .filter((record) => !query.userId || record.userId === query.userId),
+    query,
+  );
+  return { items: page.map((record) => toRecord(state, record, userId)), nextCursor };
+});
+
+route('POST', '/api/groups/:groupId/records', ({ state, params, body, userId }) => {
+  requireMember(findGroup(state, params.groupId), userId);
+  const record: MockRecord = {
+    id: nextId(state, 'record'),
+    groupId: params.groupId,
+    userId,
+    readDate: readString(body, 'readDate'),
+    startPage: readNumber(body, 'startPage'),
+    endPage: readNumber(body, 'endPage'),
+    comment: readOptionalString(body, 'comment') ?? null,
+    imageUrl: readString(body, 'imageUrl'),
+    createdAt: now(),
+  };
+  if (record.startPage < 1 || record.endPage < record.startPage) throw invalid('endPage');
+  state.records.push(record);
+  return toRecord(state, record, userId);
+});
+
+route('GET', '/api/records/:recordId', ({ state, params, userId }) =>
+  toRecord(state, findRecord(state, params.recordId), userId),
+);
+
+route('PATCH', '/api/records/:recordId', ({ state, params, body, userId }) => {
+  const record = findOwned(state.records, params.recordId, userId, '기록');
+  record.startPage = readOptionalNumber(body, 'startPage') ?? record.startPage;
+  record.endPage = readOptionalNumber(body, 'endPage') ?? record.endPage;
+  record.comment = readOptionalString(body, 'comment') ?? record.comment;
+  record.imageUrl = readOptionalString(body, 'imageUrl') ?? record.imageUrl;
+  return toRecord(state, record, userId);
+});
+
+route('DELETE', '/api/records/:recordId', ({ state, params, userId }) => {
+  findOwned(state.records, params.recordId, userId, '기록');
+  removeById(state.records, params.recordId);
+  return null;
+});
+
+route('GET', '/api/records/:recordId/comments', ({ state, params }) => {
+  findRecord(state, params.recordId);
+  return state.recordComments
+    .filter((comment) => comment.parentId === params.recordId)
+    .map((comment) => toRecordComment(state, comment));
+});
+
+route('POST', '/api/records/:recordId/comments', ({ state, params, body, userId }) => {
+  findRecord(state, params.recordId);
+  const parentCommentId = readOptionalString(body, 'parentCommentId');
+  const parent = parentCommentId
+    ? state.recordComments.find(
+        (item) => item.id === parentCommentId && item.parentId === params.recordId,
+      )
+    : undefined;
+  if (parentCommentId && !parent) throw notFound('댓글');
+  const comment: MockComment = {
+    id: nextId(state, 'record-comment'),
+    parentId: params.recordId,
+    parentCommentId: parent ? (parent.parentCommentId ?? parent.id) : null,
+    userId,
+    content: readString(body, 'content'),
+    createdAt: now(),
+  };
+  state.recordComments.push(comment);
+  return toRecordComment(state, comment);
+});
+
+route('PATCH', '/api/record-comments/:commentId', ({ state, params, body, userId }) => {
+  const comment = findOwned(state.recordComments, params.commentId, userId, '댓글');
+  comment.content = readOptionalString(body, 'content') ?? comment.content;
+  return toRecordComment(state, comment);
+});
+
+// Deleting a top-level comment takes its replies with it.
+route('DELETE', '/api/record-comments/:commentId', ({ state, params, userId }) => {
+  findOwned(state.recordComments, params.commentId, userId, '댓글');
+  state.recordComments = state.recordComments.filter(
+    (comment) =>
+      comment.id !== params.commentId && comment.parentCommentId !== params.commentId,
+  );
+  return null;
+});
+
+route('GET', '/api/records/:recordId/reactions', ({ state, params }) => {
+  findRecord(state, params.recordId);
+  return state.recordReactions
+    .filter((reaction) => reaction.parentId === params.recordId)
+    .map((reaction) => toRecordReaction(state, reaction));
+});
+
+route('POST', '/api/records/:recordId/reactions', ({ state, params, body, userId }) => {
+  findRecord(state, params.recordId);
+  const reaction: MockReaction = {
+    id: nextId(state, 'record-reaction'),
+    parentId: params.recordId,
+    userId,
+    emoji: readString(body, 'emoji'),
+    createdAt: now(),
+  };
+  state.recordReactions.push(reaction);
+  return toRecordReaction(state, reaction);
+});
+
+route('PATCH', '/api/record-reactions/:reactionId', ({ state, params, body, userId }) => {
+  const reaction = findOwned(state.recordReactions, params.reactionId, userId, '반응');
+  reaction.emoji = readOptionalString(body, 'emoji') ?? reaction.emoji;
+  return toRecordReaction(state, reaction);
+});
+
+route('DELETE', '/api/record-reactions/:reactionId', ({ state, params, userId }) => {
+  findOwned(state.recordReactions, params.reactionId, userId, '반응');
+  removeById(state.recordReactions, params.reactionId);
+  return null;
+});
+
+route('GET', '/api/records/:recordId/likes', ({ state, params, userId }): RecordLikeSummary => {
+  findRecord(state, params.recordId);
+  const likes = byNewest(state.recordLikes.filter((like) => like.recordId === params.recordId));
+  return {
+    likeCount: likes.length,
+    likedByMe: likes.some((like) => like.userId === userId),
+    likers: likes.map((like) => ({ ...authorFields(state, like.userId), likedAt: like.createdAt })),
+  };
+});
+
+route('POST', '/api/records/:recordId/likes', ({ state, params, userId }) => {
+  findRecord(state, params.recordId);
+  const index = state.recordLikes.findIndex(
+    (like) => like.recordId === params.recordId && like.userId === userId,
+  );
+  if (index >= 0) {
+    state.recordLikes.splice(index, 1);
+  } else {
+    state.recordLikes.push({ recordId: params.recordId, userId, createdAt: now() });
+  }
+  return {
+    liked: index < 0,
+    likeCount: state.recordLikes.filter((like) => like.recordId === params.recordId).length,
+  };
+});
+
+// sentences
+route('GET', '/api/groups/:groupId/sentences', ({ state, params }) => {
+  findGroup(state, params.groupId);
+  return byNewest(state.sentences.filter((sentence) => sentence.groupId === params.groupId)).map(
+    (sentence) => toSentence(state, sentence),
+  );
+});
+
+route('POST', '/api/groups/:groupId/sentences', ({ state, params, body, userId }) => {
+  requireMember(findGroup(state, params.groupId), userId);
+  const sentence: MockSentence = {
+    id: nextId(state, 'sentence'),
+    groupId: params.groupId,
+    userId,
+    content: readString(body, 'content'),
+    pageNo: readNumber(body, 'pageNo'),
+    thought: readOptionalString(body, 'thought') ?? null,
+    createdAt: now(),
+  };
+  state.sentences.push(sentence);
+  return toSentence(state, sentence);
+});
+
+route('GET', '/api/sentences/:sentenceId', ({ state, params, userId }) => {
+  const sentence = state.sentences.find((item) => item.id === params.sentenceId);
+  if (!sentence) throw notFound('문장');
+  requireMember(findGroup(state, sentence.groupId), userId);
+  return toSentence(state, sentence);
+});
+
+route('PATCH', '/api/sentences/:sentenceId', ({ state, params, body, userId }) => {
+  const sentence = findOwned(state.sentences, params.sentenceId, userId, '문장');
+  sentence.content = readOptionalString(body, 'content') ?? sentence.content;
+  sentence.pageNo = readOptionalNumber(body, 'pageNo') ?? sentence.pageNo;
+  const thought = readOptionalString(body, 'thought');
+  // An empty thought clears it.
+  if (thought !== undefined) sentence.thought = thought.trim() || null;
+  return toSentence(state, sentence);
+});
+
+route('DELETE', '/api/sentences/:sentenceId', ({ state, params, userId }) => {
+  findOwned(state.sentences, params.sentenceId, userId, '문장');
+  removeById(state.sentences, params.sentenceId);
+  return null;
+});
+
+route('GET', '/api/sentences/:sentenceId/comments', ({ state, params }) => {
+  findSentence(state, params.sentenceId);
+  return state.sentenceComments
+    .filter((comment) => comment.parentId === params.sentenceId)
+    .map((comment) => toSentenceComment(state, comment));
+});
+
+route('POST', '/api/sentences/:sentenceId/comments', ({ state, params, body, userId }) => {
+  findSentence(state, params.sentenceId);
+  const comment: MockComment = {
+    id: nextId(state, 'sentence-comment'),
+    parentId: params.sentenceId,
+    userId,
+    content: readString(body, 'content'),
+    createdAt: now(),
+  };
+  state.sentenceComments.push(comment);
+  return toSentenceComment(state, comment);
+});
+
+route('PATCH', '/api/comments/:commentId', ({ state, params, body, userId }) => {
+  const comment = findOwned(state.sentenceComments, params.commentId, userId, '댓글');
+  comment.content = readOptionalString(body, 'content') ?? comment.content;
+  return toSentenceComment(state, comment);
+});
+
+route('DELETE', '/api/comments/:commentId', ({ state, params, userId }) => {
+  findOwned(state.sentenceComments, params.commentId, userId, '댓글');
+  removeById(state.sentenceComments, params.commentId);
+  return null;
+});
+
+// friends
+route('GET', '/api/friends', ({ state, userId }): Friend[] =>
+  state.friendships
+    .filter((friendship) => friendship.userId === userId)
+    .map((friendship) => {
+      const friend = findUser(state, friendship.friendId);
+      return {
+        id: friend.id,
+        nickname: friend.nickname,
+        email: friend.email,
+        userProfileEmoji: friend.emoji,
+        followedAt: friendship.createdAt,
+      };
+    }),
+);
+
+route('POST', '/api/friends', ({ state, body, userId }) => {
+  const action = readString(body, 'action');
+  const email = readOptionalString(body, 'email')?.trim().toLowerCase();
+  const target = email
+    ? state.users.find((user) => user.email.toLowerCase() === email)
+    : state.users.find((user) => user.id === readString(body, 'targetId'));
+  if (!target) {
+    throw new MockHttpError(404, 'USER_NOT_FOUND', '사용자를 찾을 수 없어요.');
+  }
+  state.friendships = state.friendships.filter(
+    (friendship) => !(friendship.userId === userId && friendship.friendId === target.id),
+  );
+  if (action === 'add') {
+    state.friendships.push({ userId, friendId: target.id, createdAt: now() });
+  }
+  return null;
+});
+
+// calendar records
+route('POST', '/api/calendar-records', ({ state, body, userId }) => {
+  const groupId = readString(body, 'groupId');
+  findGroup(state, groupId);
+  const record = {
+    id: nextId(state, 'calendar-record'),
+    userId,
+    groupId,
+    readDate: readString(body, 'readDate'),
+    note: readOptionalString(body, 'note') ?? null,
+    createdAt: now(),
+  };
+  state.calendarRecords.push(record);
+  return toCalendarRecord(state, record);
+});
+
+route('GET', '/api/calendar-records/:recordId/reactions', ({ state, params }) =>
+  state.calendarRecordReactions
+    .filter((reaction) => reaction.parentId === params.recordId)
+    .map((reaction) => toCalendarReaction(state, reaction)),
+);
+
+route('POST', '/api/calendar-records/:recordId/reactions', ({ state, params, body, userId }) => {
+  if (!state.calendarRecords.some((record) => record.id === params.recordId)) {
+    throw notFound('기록');
+  }
+  const reaction: MockReaction = {
+    id: nextId(state, 'calendar-reaction'),
+    parentId: params.recordId,
+    userId,
+    emoji: readString(body, 'emoji'),
+    createdAt: now(),
+  };
+  state.calendarRecordReactions.push(reaction);
+  return toCalendarReaction(state, reaction);
+});
+
+route('PATCH', '/api/calendar-record-reactions/:reactionId', ({ state, params, body, userId }) => {
+  const reaction = findOwned(state.calendarRecordReactions, params.reactionId, userId, '반응');
+  reaction.emoji = readOptionalString(body, 'emoji') ?? reaction.emoji;
+  return toCalendarReaction(state, reaction);
+});
+
+route('DELETE', '/api/calendar-record-reactions/:reactionId', ({ state, params, userId }) => {
+  findOwned(state.calendarRecordReactions, params.reactionId, userId, '반응');
+  removeById(state.calendarRecordReactions, params.reactionId);
+  return null;
+});
+
+// images
+route('POST', '/api/images', ({ state, body }) => ({
+  url: getUploadedUri(body) ?? `https://picsum.photos/seed/${nextId(state, 'upload')}/600/600`,
+}));
+
+// insights
+route('GET', '/api/insights', ({ state, userId }) => buildInsights(state, userId));
+
+route('POST', '/api/insights/ai-summary', ({ body }) => {
+  const activity = asRecord(asRecord(body).activity);
+  const totalRecords = typeof activity.totalRecords === 'number' ? activity.totalRecords : 0;
+  return {
+    summary: `지금까지 ${totalRecords}개의 기록을 남겼어요. 꾸준함이 가장 큰 힘이에요.`,
+  };
+});
+
+// --- dispatch ---
+
+const matchRoute = (method: HttpMethod, path: string) => {
+  const segments = path.split('/').filter(Boolean);
+  let methodMismatch = false;
+  for (const candidate of routes) {
+    if (candidate.segments.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = candidate.segments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+    if (!matches) continue;
+    if (candidate.method !== method) {
+      methodMismatch = true;
+      continue;
+    }
+    return { route: candidate, params };
+  }
+  if (methodMismatch) {
+    throw new MockHttpError(405, 'METHOD_NOT_ALLOWED', `${method} ${path} is not supported.`);
+  }
+  throw new MockHttpError(404, 'NOT_FOUND', `${method} ${path} is not mocked.`);
+};
+
+const getBearerUser = (state: MockState, headers: Record<string, string>) => {
+  const authorization = headers.Authorization ?? headers.authorization ?? '';
+  const token = authorization.replace(/^Bearer\s+/i, '');
+  return token ? state.accessTokens.get(token) ?? null : null;
+};
+
+/** Answers one request against `state`, mirroring the real API's envelope and status codes. */
+export function handleMockRequest(state: MockState, request: MockRequest): MockResponse {
+  const idempotencyKey = request.headers['Idempotency-Key'];
+  if (idempotencyKey && state.idempotentResponses.has(idempotencyKey)) {
+    return state.idempotentResponses.get(idempotencyKey) as MockResponse;
+  }
+
+  let response: MockResponse;
+  try {
+    const { route: matched, params } = matchRoute(request.method, request.path);
+    const userId = getBearerUser(state, request.headers);
+    if (!matched.isPublic && !userId) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', '로그인이 필요해요.');
+    }
+    const data = matched.handler({
+      state,
+      params,
+      query: request.query,
+      body: request.body,
+      userId: userId ?? '',
+    });
+    // Round-trip through JSON so callers never share references with the mock state.
+    const payload = { success: true, data: JSON.parse(JSON.stringify(data ?? null)) };
+    response = { status: 200, payload };
+  } catch (error) {
+    const status = error instanceof MockHttpError ? error.status : 500;
+    const code = error instanceof MockHttpError ? error.code : 'INTERNAL_ERROR';
+    const message = error instanceof Error ? error.message : 'Mock handler failed';
+    response = { status, payload: { success: false, error: { code, message } } };
+  }
+
+  if (idempotencyKey && response.status < 500) {
+    state.idempotentResponses.set(idempotencyKey, response);
+  }
+  return response;
+}
@@ -0,0 +1,68 @@
+import type { Transport } from '@/services/api-client';
+import { createMockSeed, type MockSeed } from '@/services/mock/fixtures';
+import { createMockState, handleMockRequest, type MockState } from '@/services/mock/routes';
+
+// Enough delay for loading states to show up in demos without slowing tests down much.
+const MOCK_LATENCY_MS = 120;
+
+let state: MockState | null = null;
+
+const getState = () => {
+  if (!state) {
+    state = createMockState(createMockSeed());
+  }
+  return state;
+};
+
+/** Restarts the in-memory backend from `seed` (the default fixtures when omitted). */
+export function resetMockBackend(seed: MockSeed = createMockSeed()) {
+  state = createMockState(seed);
+}
+
+const toQuery = (query: Parameters<Transport>[0]['query']) => {
+  const result: Record<string, string> = {};
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    result[key] = String(value);
+  });
+  return result;
+};
+
+// JSON bodies are cloned the way a real request serializes them; multipart passes through.
+const toBody = (body: unknown) => {
+  if (body === undefined || body === null) return body;
+  if (typeof (body as { append?: unknown }).append === 'function') return body;
+  return JSON.parse(JSON.stringify(body));
+};
+
+const waitForLatency = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+      resolve();
+    }, MOCK_LATENCY_MS);
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener('abort', handleAbort, { once: true });
+  });
+
+const mockTransport: Transport = async (request) => {
+  await waitForLatency(request.signal);
+  return handleMockRequest(getState(), {
+    method: request.method,
+    path: request.path.split('?')[0],
+    query: toQuery(request.query),
+    headers: request.headers,
+    body: toBody(request.body),
+  });
+};
+
+export function getMockTransport(): Transport {
+  return mockTransport;
+}
@@ -0,0 +1,303 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+
+import { sentenceCommentSchema } from '@/schemas/comment';
+import { readingRecordSchema } from '@/schemas/record';
+import { recordCommentSchema } from '@/schemas/record-comment';
+import type { Schema } from '@/schemas/schema';
+import { sentenceSchema } from '@/schemas/sentence';
+import { ApiClientError, isNetworkError, isTimeoutError, request } from '@/services/api-client';
+import { uploadImage } from '@/services/images';
+import { getUserId } from '@/services/session';
+
+const OUTBOX_KEY = 'outbox.entries';
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxKind = 'record' | 'sentence' | 'recordComment' | 'sentenceComment';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export type OutboxImageUpload = {
+  uri: string;
+  name?: string | null;
+  mimeType?: string | null;
+};
+
+export type OutboxScope = {
+  groupId?: string;
+  recordId?: string;
+  sentenceId?: string;
+};
+
+export type OutboxEntry = {
+  // Doubles as the Idempotency-Key so a replay after a lost response is not applied twice.
+  id: string;
+  kind: OutboxKind;
+  userId: string | null;
+  path: string;
+  method: 'POST';
+  body: Record<string, unknown>;
+  // Uploaded before the request; the resulting URL is written to `body.imageUrl`.
+  imageUpload?: OutboxImageUpload;
+  scope: OutboxScope;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+};
+
+export type OutboxDraft = Pick<OutboxEntry, 'kind' | 'path' | 'body' | 'scope' | 'imageUpload'>;
+
+export type OutboxResult<T> =
+  | { status: 'sent'; data: T }
+  | { status: 'queued'; entry: OutboxEntry };
+
+export type OutboxEvent =
+  | { type: 'changed'; entries: OutboxEntry[] }
+  | { type: 'sent'; entry: OutboxEntry; data: unknown };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+// Entries are persisted as JSON, so the response schema is looked up by kind on replay.
+const responseSchemas: Record<OutboxKind, Schema<unknown>> = {
+  record: readingRecordSchema,
+  sentence: sentenceSchema,
+  recordComment: recordCommentSchema,
+  sentenceComment: sentenceCommentSchema,
+};
+
+let cachedEntries: OutboxEntry[] = [];
+let hydratePromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const parseEntries = (raw: string | null): OutboxEntry[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+async function hydrate() {
+  if (!hydratePromise) {
+    hydratePromise = AsyncStorage.getItem(OUTBOX_KEY).then((raw) => {
+      cachedEntries = parseEntries(raw);
+    });
+  }
+  await hydratePromise;
+}
+
+const notify = (event: OutboxEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+async function persist(entries: OutboxEntry[]) {
+  cachedEntries = entries;
+  notify({ type: 'changed', entries });
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  } catch {
+    // The in-memory queue still replays for this app session.
+  }
+}
+
+const updateEntry = (id: string, patch: Partial<OutboxEntry>) =>
+  persist(cachedEntries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+const removeEntry = (id: string) => persist(cachedEntries.filter((entry) => entry.id !== id));
+
+const getErrorText = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : '전송에 실패했어요.';
+
+// Network failures and server hiccups stay queued; anything else will fail the same way on replay.
+const isRetryableError = (error: unknown) => {
+  if (isNetworkError(error) || isTimeoutError(error)) {
+    return true;
+  }
+  if (error instanceof ApiClientError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return false;
+};
+
+async function isOnline() {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return state.isConnected !== false && state.isInternetReachable !== false;
+  } catch {
+    return true;
+  }
+}
+
+async function deliver(entry: OutboxEntry): Promise<unknown> {
+  let body = entry.body;
+  if (entry.imageUpload && typeof body.imageUrl !== 'string') {
+    const imageUrl = await uploadImage(entry.imageUpload);
+    body = { ...body, imageUrl };
+    entry.body = body;
+    if (cachedEntries.some((item) => item.id === entry.id)) {
+      await updateEntry(entry.id, { body });
+    }
+  }
+  return request<unknown>(entry.path, {
+    method: entry.method,
+    body,
+    headers: { 'Idempotency-Key': entry.id },
+    schema: responseSchemas[entry.kind],
+  });
+}
+
+const isOwnEntry = (entry: OutboxEntry, userId: string | null) => entry.userId === userId;
+
+// A server hiccup while online triggers no network or app-state event, so retry on a timer.
+const scheduleRetry = (attempts: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox().catch(() => {});
+  }, delay);
+};
+
+async function runFlush() {
+  await hydrate();
+  if (!(await isOnline())) return;
+  const userId = await getUserId();
+
+  // Re-reads the queue each round so entries added mid-flush are sent in this run.
+  for (;;) {
+    const entry = cachedEntries.find(
+      (item) => item.status === 'pending' && isOwnEntry(item, userId),
+    );
+    if (!entry) return;
+    try {
+      const data = await deliver(entry);
+      await removeEntry(entry.id);
+      notify({ type: 'sent', entry, data });
+    } catch (error) {
+      const retryable = isRetryableError(error);
+      await updateEntry(entry.id, {
+        status: retryable ? 'pending' : 'failed',
+        attempts: entry.attempts + 1,
+        lastError: getErrorText(error),
+      });
+      // Keep later entries behind a retryable failure so they replay in order.
+      if (retryable) {
+        scheduleRetry(entry.attempts + 1);
+        return;
+      }
+    }
+  }
+}
+
+export async function flushOutbox(): Promise<void> {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (!flushPromise) {
+    flushPromise = runFlush().finally(() => {
+      flushPromise = null;
+    });
+  }
+  await flushPromise;
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  await hydrate();
+  const userId = await getUserId();
+  return cachedEntries.filter((entry) => isOwnEntry(entry, userId));
+}
+
+/**
+ * Sends a create request right away when possible. When the device is offline,
+ * the request fails with a network error, or earlier entries are still waiting,
+ * it is queued and replayed in order once connectivity returns.
+ */
+export async function sendWithOutbox<T>(draft: OutboxDraft): Promise<OutboxResult<T>> {
+  await hydrate();
+  const userId = await getUserId();
+  const entry: OutboxEntry = {
+    ...draft,
+    id: createIdempotencyKey(),
+    userId,
+    method: 'POST',
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  const hasQueuedEntries = cachedEntries.some(
+    (item) => item.status === 'pending' && isOwnEntry(item, userId),
+  );
+  if (!hasQueuedEntries && (await isOnline())) {
+    try {
+      const data = (await deliver(entry)) as T;
+      return { status: 'sent', data };
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+      entry.lastError = getErrorText(error);
+      entry.attempts = 1;
+    }
+  }
+
+  await persist([...cachedEntries, entry]);
+  if (hasQueuedEntries) {
+    flushOutbox().catch(() => {});
+  } else if (entry.attempts > 0) {
+    scheduleRetry(entry.attempts);
+  }
+  return { status: 'queued', entry };
+}
+
+export async function retryOutboxEntry(id: string): Promise<void> {
+  await hydrate();
+  await updateEntry(id, { status: 'pending', lastError: null });
+  await flushOutbox();
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await hydrate();
+  await removeEntry(id);
+}
+
+export function addOutboxListener(listener: OutboxListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Replays the outbox now and whenever the network comes back or the app returns to the foreground. */
+export function startOutboxSync() {
+  const flush = () => {
+    flushOutbox().catch(() => {});
+  };
+  const networkSubscription = Network.addNetworkStateListener((state) => {
+    if (state.isConnected && state.isInternetReachable !== false) {
+      flush();
+    }
+  });
+  const appStateSubscription = AppState.addEventListener('change', (state) => {
+    if (state === 'active') {
+      flush();
+    }
+  });
+  flush();
+  return () => {
+    networkSubscription.remove();
+    appStateSubscription.remove();
+  };
+}
@@ -0,0 +1,304 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { parseWithSchema, type Schema } from '@/schemas/schema';
+import {
+  buildQueryString,
+  createAbortError,
+  request,
+  type RequestOptions,
+} from '@/services/api-client';
+import { addSessionListener, getUserId } from '@/services/session';
+
+const SNAPSHOT_KEY = 'queryCache.snapshot';
+const SNAPSHOT_LIMIT = 100;
+const SNAPSHOT_WRITE_DELAY = 500;
+
+export const DEFAULT_QUERY_TTL = 30 * 1000;
+
+/** Describes a cacheable GET request; services export these so screens can subscribe to them. */
+export type CachedQuery<T> = {
+  path: string;
+  query?: RequestOptions['query'];
+  // How long a response counts as fresh. Stale entries are still shown while they refetch.
+  ttl?: number;
+  schema: Schema<T>;
+};
+
+export type FetchQueryOptions = {
+  force?: boolean;
+  // Stops waiting for the response; the request itself is aborted once no caller waits on it.
+  signal?: AbortSignal;
+};
+
+type CacheEntry = {
+  data: unknown;
+  updatedAt: number;
+  stale: boolean;
+  // Network responses are validated by `request`; snapshot data is checked on first read.
+  validated: boolean;
+};
+
+type Snapshot = {
+  userId: string | null;
+  entries: Record<string, { data: unknown; updatedAt: number }>;
+};
+
+export type QueryCacheEvent =
+  | { type: 'updated'; key: string }
+  | { type: 'invalidated'; prefixes: string[] }
+  | { type: 'cleared' };
+
+type QueryCacheListener = (event: QueryCacheEvent) => void;
+
+const entries = new Map<string, CacheEntry>();
+type InflightRequest = {
+  startedAt: number;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers still waiting on the response; callers without a signal wait until it settles.
+  waiters: number;
+};
+
+const inflight = new Map<string, InflightRequest>();
+const invalidatedAt = new Map<string, number>();
+const listeners = new Set<QueryCacheListener>();
+let hydratePromise: Promise<void> | null = null;
+let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+let cacheGeneration = 0;
+
+export const getQueryKey = <T>(query: CachedQuery<T>) =>
+  `${query.path}${buildQueryString(query.query)}`;
+
+const notify = (event: QueryCacheEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const parseSnapshot = (raw: string | null): Snapshot | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Snapshot | null;
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.entries !== 'object') {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+};
+
+async function loadSnapshot() {
+  const generation = cacheGeneration;
+  const [snapshot, userId] = await Promise.all([
+    AsyncStorage.getItem(SNAPSHOT_KEY).then(parseSnapshot),
+    getUserId(),
+  ]);
+  // Snapshots belong to one account; never show another account's data on cold start.
+  if (!snapshot || !userId || snapshot.userId !== userId || generation !== cacheGeneration) {
+    return;
+  }
+  Object.entries(snapshot.entries).forEach(([key, entry]) => {
+    if (entries.has(key)) return;
+    entries.set(key, {
+      data: entry.data,
+      updatedAt: entry.updatedAt,
+      stale: false,
+      validated: false,
+    });
+  });
+}
+
+async function hydrate() {
+  if (!hydratePromise) {
+    hydratePromise = loadSnapshot().catch(() => {
+      // Without a snapshot the first render simply waits for the network.
+    });
+  }
+  await hydratePromise;
+}
+
+async function writeSnapshot() {
+  const userId = await getUserId();
+  if (!userId) return;
+  const recent = Array.from(entries.entries())
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, SNAPSHOT_LIMIT);
+  const snapshot: Snapshot = {
+    userId,
+    entries: Object.fromEntries(
+      recent.map(([key, entry]) => [key, { data: entry.data, updatedAt: entry.updatedAt }]),
+    ),
+  };
+  await AsyncStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+}
+
+// Responses tend to arrive in bursts (e.g. one book per group card), so writes are coalesced.
+const scheduleSnapshot = () => {
+  if (snapshotTimer) return;
+  snapshotTimer = setTimeout(() => {
+    snapshotTimer = null;
+    writeSnapshot().catch(() => {});
+  }, SNAPSHOT_WRITE_DELAY);
+};
+
+const isFresh = (entry: CacheEntry, ttl: number) =>
+  !entry.stale && Date.now() - entry.updatedAt < ttl;
+
+const matchesPrefix = (key: string, prefix: string) =>
+  key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`);
+
+export const isQueryInvalidatedBy = (key: string, prefixes: string[]) =>
+  prefixes.some((prefix) => matchesPrefix(key, prefix));
+
+/**
+ * Returns whatever is cached for a query, fresh or not, including the snapshot
+ * persisted by a previous launch. Does not touch the network.
+ */
+export async function peekQuery<T>(query: CachedQuery<T>): Promise<T | undefined> {
+  await hydrate();
+  return peekQuerySync(query);
+}
+
+/** Synchronous variant of `peekQuery` for initial render; ignores snapshots not loaded yet. */
+export function peekQuerySync<T>(query: CachedQuery<T>): T | undefined {
+  const key = getQueryKey(query);
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+  if (entry.validated) return entry.data as T;
+  // Snapshots may predate a schema change; drop them rather than render a broken shape.
+  const result = parseWithSchema(query.schema, entry.data);
+  if (!result.ok) {
+    entries.delete(key);
+    return undefined;
+  }
+  // Keep the copy with defaults filled in; later peeks return it without re-parsing.
+  entry.data = result.value;
+  entry.validated = true;
+  return result.value;
+}
+
+const waitForInflight = <T>(key: string, pending: InflightRequest, signal?: AbortSignal) => {
+  pending.waiters += 1;
+  const promise = pending.promise as Promise<T>;
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      pending.waiters -= 1;
+      if (pending.waiters === 0) {
+        if (inflight.get(key) === pending) {
+          inflight.delete(key);
+        }
+        pending.controller.abort();
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', handleAbort));
+  });
+};
+
+/**
+ * Resolves a query from the cache while it is fresh and otherwise fetches it.
+ * Concurrent calls for the same key share one request.
+ */
+export async function fetchQuery<T>(
+  query: CachedQuery<T>,
+  options: FetchQueryOptions = {},
+): Promise<T> {
+  await hydrate();
+  if (options.signal?.aborted) {
+    throw createAbortError();
+  }
+  const key = getQueryKey(query);
+  const cached = entries.get(key);
+  if (!options.force && cached && isFresh(cached, query.ttl ?? DEFAULT_QUERY_TTL)) {
+    const data = peekQuerySync(query);
+    if (data !== undefined) {
+      return data;
+    }
+  }
+
+  // A request started before the last invalidation may miss that mutation; start a new one.
+  const pending = inflight.get(key);
+  if (pending && pending.startedAt >= (invalidatedAt.get(key) ?? 0)) {
+    return waitForInflight<T>(key, pending, options.signal);
+  }
+
+  const startedAt = Date.now();
+  const generation = cacheGeneration;
+  const controller = new AbortController();
+  const promise: Promise<T> = request(query.path, {
+    query: query.query,
+    schema: query.schema,
+    signal: controller.signal,
+  })
+    .then((data) => {
+      // Superseded requests must not overwrite the response of the one that replaced them.
+      if (generation !== cacheGeneration || inflight.get(key)?.promise !== promise) {
+        return data;
+      }
+      // A mutation that landed mid-flight may not be reflected in this response.
+      const stale = (invalidatedAt.get(key) ?? 0) > startedAt;
+      entries.set(key, { data, updatedAt: Date.now(), stale, validated: true });
+      notify({ type: 'updated', key });
+      scheduleSnapshot();
+      return data;
+    })
+    .finally(() => {
+      if (inflight.get(key)?.promise === promise) {
+        inflight.delete(key);
+      }
+    });
+  const entry: InflightRequest = { startedAt, promise, controller, waiters: 0 };
+  inflight.set(key, entry);
+  return waitForInflight<T>(key, entry, options.signal);
+}
+
+/**
+ * Marks every cached query under the given paths as stale and tells mounted
+ * screens to refetch. Cached data stays visible until the new response arrives.
+ */
+export function invalidateQueries(...prefixes: string[]) {
+  const now = Date.now();
+  const keys = new Set([...entries.keys(), ...inflight.keys()]);
+  keys.forEach((key) => {
+    if (!isQueryInvalidatedBy(key, prefixes)) return;
+    invalidatedAt.set(key, now);
+    const entry = entries.get(key);
+    if (entry) {
+      entry.stale = true;
+    }
+  });
+  notify({ type: 'invalidated', prefixes });
+}
+
+export async function clearQueryCache() {
+  cacheGeneration += 1;
+  entries.clear();
+  inflight.clear();
+  invalidatedAt.clear();
+  hydratePromise = Promise.resolve();
+  if (snapshotTimer) {
+    clearTimeout(snapshotTimer);
+    snapshotTimer = null;
+  }
+  notify({ type: 'cleared' });
+  try {
+    await AsyncStorage.removeItem(SNAPSHOT_KEY);
+  } catch {
+    // The snapshot is tagged with its user id, so a leftover one is ignored anyway.
+  }
+}
+
+export function addQueryCacheListener(listener: QueryCacheListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Any account change makes the cached responses belong to someone else.
+addSessionListener(() => {
+  clearQueryCache().catch(() => {});
+});
@@ -1,5 +1,25 @@
-import { request } from '@/services/api-client';
-import { CreateRecordCommentInput, RecordComment } from '@/types/record-comment';
+import { cursorPageSchema } from '@/schemas/page';
+import { readingRecordSchema } from '@/schemas/record';
+import { recordCommentSchema } from '@/schemas/record-comment';
+import { recordLikeStateSchema, recordLikeSummarySchema } from '@/schemas/record-like';
+import { recordReactionSchema } from '@/schemas/record-reaction';
+import { array } from '@/schemas/schema';
+import { request, type RequestOptions } from '@/services/api-client';
+import { groupsQuery } from '@/services/groups';
+import {
+  addOutboxListener,
+  OutboxImageUpload,
+  OutboxResult,
+  sendWithOutbox,
+} from '@/services/outbox';
+import { invalidateQueries } from '@/services/query-cache';
+import { CursorPage, CursorPageQuery } from '@/types/api';
+import {
+  CreateRecordCommentInput,
+  RecordComment,
+  UpdateRecordCommentInput,
+} from '@/types/record-comment';
+import { RecordLikeState, RecordLikeSummary } from '@/types/record-like';
 import {
   CreateRecordReactionInput,
   RecordReaction,
@@ -7,15 +27,19 @@ import {
 } from '@/types/record-reaction';
 import { CreateRecordInput, ReadingRecord, UpdateRecordInput } from '@/types/record';
 
-export type RecordQuery = {
+export type RecordQuery = CursorPageQuery & {
   year?: number;
   month?: number;
   userId?: string;
+  // Only records created after this ISO timestamp, for pull-to-refresh.
+  since?: string;
 };
 
+export const RECORD_PAGE_SIZE = 20;
+
 const buildRecordQuery = (query?: RecordQuery) => {
   if (!query) return undefined;
-  const { year, month, userId } = query;
+  const { year, month, userId, since, cursor, limit } = query;
   if ((year === undefined) !== (month === undefined)) {
     throw new Error('Both year and month are required when filtering by date.');
   }
@@ -23,70 +47,176 @@ const buildRecordQuery = (query?: RecordQuery) => {
     year,
     month,
     userId,
+    since,
+    cursor,
+    limit,
   };
 };
 
-export async function getGroupRecords(groupId: string, query?: RecordQuery): Promise<ReadingRecord[]> {
-  return request<ReadingRecord[]>(`/api/groups/${encodeURIComponent(groupId)}/records`, {
-    query: buildRecordQuery(query),
+const recordPageSchema = cursorPageSchema(readingRecordSchema);
+
+// Group payloads carry each member's current page and the weekly activity, which records move.
+// Sentences feed the same activity counts and invalidate groups the same way in sentences.ts.
+const invalidateGroupProgress = () => {
+  invalidateQueries(groupsQuery.path);
+};
+
+// Queued records are sent later by the outbox, outside of createRecordOrQueue.
+addOutboxListener((event) => {
+  if (event.type === 'sent' && event.entry.kind === 'record') {
+    invalidateGroupProgress();
+  }
+});
+
+/** Returns one page of the group's records, newest first. */
+export async function getGroupRecords(
+  groupId: string,
+  query?: RecordQuery,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<CursorPage<ReadingRecord>> {
+  return request(`/api/groups/${encodeURIComponent(groupId)}/records`, {
+    query: buildRecordQuery({ limit: RECORD_PAGE_SIZE, ...query }),
+    signal: options?.signal,
+    schema: recordPageSchema,
   });
 }
 
-export async function getUserRecords(userId: string, query?: RecordQuery): Promise<ReadingRecord[]> {
-  return request<ReadingRecord[]>(`/api/users/${encodeURIComponent(userId)}/records`, {
-    query: buildRecordQuery(query),
+/** Returns one page of the user's records, newest first. */
+export async function getUserRecords(
+  userId: string,
+  query?: RecordQuery,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<CursorPage<ReadingRecord>> {
+  return request(`/api/users/${encodeURIComponent(userId)}/records`, {
+    query: buildRecordQuery({ limit: RECORD_PAGE_SIZE, ...query }),
+    signal: options?.signal,
+    schema: recordPageSchema,
   });
 }
 
 export async function createRecord(groupId: string, payload: CreateRecordInput): Promise<ReadingRecord> {
-  return request<ReadingRecord>(`/api/groups/${encodeURIComponent(groupId)}/records`, {
+  const record = await request(`/api/groups/${encodeURIComponent(groupId)}/records`, {
     method: 'POST',
     body: payload,
+    schema: readingRecordSchema,
+  });
+  invalidateGroupProgress();
+  return record;
+}
+
+export async function createRecordOrQueue(
+  groupId: string,
+  payload: Omit<CreateRecordInput, 'imageUrl'> & { imageUrl?: string },
+  imageUpload?: OutboxImageUpload,
+): Promise<OutboxResult<ReadingRecord>> {
+  if (!payload.imageUrl && !imageUpload) {
+    throw new Error('An image url or an image to upload is required.');
+  }
+  const result = await sendWithOutbox<ReadingRecord>({
+    kind: 'record',
+    path: `/api/groups/${encodeURIComponent(groupId)}/records`,
+    body: payload,
+    imageUpload: payload.imageUrl ? undefined : imageUpload,
+    scope: { groupId },
   });
+  if (result.status === 'sent') {
+    invalidateGroupProgress();
+  }
+  return result;
 }
 
-export async function getRecord(recordId: string): Promise<ReadingRecord> {
-  return request<ReadingRecord>(`/api/records/${encodeURIComponent(recordId)}`);
+export async function getRecord(
+  recordId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<ReadingRecord> {
+  return request(`/api/records/${encodeURIComponent(recordId)}`, {
+    signal: options?.signal,
+    schema: readingRecordSchema,
+  });
 }
 
 export async function updateRecord(recordId: string, payload: UpdateRecordInput): Promise<ReadingRecord> {
-  return request<ReadingRecord>(`/api/records/${encodeURIComponent(recordId)}`, {
+  const record = await request(`/api/records/${encodeURIComponent(recordId)}`, {
     method: 'PATCH',
     body: payload,
+    schema: readingRecordSchema,
   });
+  invalidateGroupProgress();
+  return record;
 }
 
 export async function deleteRecord(recordId: string): Promise<void> {
   await request<null>(`/api/records/${encodeURIComponent(recordId)}`, {
     method: 'DELETE',
   });
+  invalidateGroupProgress();
 }
 
 export async function getRecordComments(recordId: string): Promise<RecordComment[]> {
-  return request<RecordComment[]>(`/api/records/${encodeURIComponent(recordId)}/comments`);
+  return request(`/api/records/${encodeURIComponent(recordId)}/comments`, {
+    schema: array(recordCommentSchema),
+  });
 }
 
 export async function createRecordComment(
   recordId: string,
   payload: CreateRecordCommentInput
 ): Promise<RecordComment> {
-  return request<RecordComment>(`/api/records/${encodeURIComponent(recordId)}/comments`, {
+  return request(`/api/records/${encodeURIComponent(recordId)}/comments`, {
     method: 'POST',
     body: payload,
+    schema: recordCommentSchema,
+  });
+}
+
+export async function createRecordCommentOrQueue(
+  groupId: string,
+  recordId: string,
+  payload: CreateRecordCommentInput,
+): Promise<OutboxResult<RecordComment>> {
+  return sendWithOutbox<RecordComment>({
+    kind: 'recordComment',
+    path: `/api/records/${encodeURIComponent(recordId)}/comments`,
+    body: payload,
+    scope: { groupId, recordId },
+  });
+}
+
+export async function updateRecordComment(
+  commentId: string,
+  payload: UpdateRecordCommentInput
+): Promise<RecordComment> {
+  return request(`/api/record-comments/${encodeURIComponent(commentId)}`, {
+    method: 'PATCH',
+    body: payload,
+    schema: recordCommentSchema,
   });
 }
 
-export async function getRecordReactions(recordId: string): Promise<RecordReaction[]> {
-  return request<RecordReaction[]>(`/api/records/${encodeURIComponent(recordId)}/reactions`);
+export async function deleteRecordComment(commentId: string): Promise<void> {
+  await request<null>(`/api/record-comments/${encodeURIComponent(commentId)}`, {
+    method: 'DELETE',
+  });
+}
+
+export async function getRecordReactions(
+  recordId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<RecordReaction[]> {
+  return request(`/api/records/${encodeURIComponent(recordId)}/reactions`, {
+    signal: options?.signal,
+    schema: array(recordReactionSchema),
+  });
 }
 
 export async function createRecordReaction(
   recordId: string,
   payload: CreateRecordReactionInput
 ): Promise<RecordReaction> {
-  return request<RecordReaction>(`/api/records/${encodeURIComponent(recordId)}/reactions`, {
+  return request(`/api/records/${encodeURIComponent(recordId)}/reactions`, {
     method: 'POST',
     body: payload,
+    schema: recordReactionSchema,
   });
 }
 
@@ -94,9 +224,10 @@ export async function updateRecordReaction(
   reactionId: string,
   payload: UpdateRecordReactionInput
 ): Promise<RecordReaction> {
-  return request<RecordReaction>(`/api/record-reactions/${encodeURIComponent(reactionId)}`, {
+  return request(`/api/record-reactions/${encodeURIComponent(reactionId)}`, {
     method: 'PATCH',
     body: payload,
+    schema: recordReactionSchema,
   });
 }
 
@@ -108,15 +239,16 @@ export async function deleteRecordReaction(reactionId: string): Promise<void> {
 
 export async function toggleRecordLike(
   recordId: string
-): Promise<{ liked: boolean; likeCount: number }> {
-  return request<{ liked: boolean; likeCount: number }>(
-    `/api/records/${encodeURIComponent(recordId)}/likes`,
-    {
-      method: 'POST',
-    },
-  );
+): Promise<RecordLikeState> {
+  return request(`/api/records/${encodeURIComponent(recordId)}/likes`, {
+    method: 'POST',
+    schema: recordLikeStateSchema,
+  });
 }
 
-export async function getRecordLikeCount(recordId: string): Promise<{ likeCount: number }> {
-  return request<{ likeCount: number }>(`/api/records/${encodeURIComponent(recordId)}/likes`);
+/** Returns the like count, whether the current user liked the record, and who did. */
+export async function getRecordLikeCount(recordId: string): Promise<RecordLikeSummary> {
+  return request(`/api/records/${encodeURIComponent(recordId)}/likes`, {
+    schema: recordLikeSummarySchema,
+  });
 }
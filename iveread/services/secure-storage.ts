@@ -0,0 +1,73 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+export type KeyValueStorage = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+const secureStoreStorage: KeyValueStorage = {
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: (key) => SecureStore.deleteItemAsync(key),
+};
+
+const asyncStorageStorage: KeyValueStorage = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
+
+export const createMemoryStorage = (): KeyValueStorage => {
+  const values = new Map<string, string>();
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async (key) => {
+      values.delete(key);
+    },
+  };
+};
+
+const STORAGE_PROBE_KEY = 'secureStorage.probe';
+
+const resolveStorage = async (): Promise<KeyValueStorage> => {
+  if (Platform.OS !== 'web') {
+    try {
+      if (await SecureStore.isAvailableAsync()) {
+        return secureStoreStorage;
+      }
+    } catch {
+      // Fall through to the non-encrypted stores below.
+    }
+  }
+  try {
+    await AsyncStorage.getItem(STORAGE_PROBE_KEY);
+    return asyncStorageStorage;
+  } catch {
+    return createMemoryStorage();
+  }
+};
+
+let overrideStorage: KeyValueStorage | null = null;
+let storagePromise: Promise<KeyValueStorage> | null = null;
+
+export async function getSecureStorage(): Promise<KeyValueStorage> {
+  if (overrideStorage) return overrideStorage;
+  if (!storagePromise) {
+    storagePromise = resolveStorage();
+  }
+  return storagePromise;
+}
+
+// Lets tests and previews swap in `createMemoryStorage()`; pass null to restore the default.
+export function setSecureStorage(storage: KeyValueStorage | null) {
+  overrideStorage = storage;
+}
+
+// SecureStore only accepts alphanumerics, ".", "-" and "_" in keys.
+export const toStorageKey = (value: string) => value.replace(/[^\w.-]/g, '_');
@@ -1,22 +1,76 @@
-import { request } from '@/services/api-client';
+import { sentenceCommentSchema } from '@/schemas/comment';
+import { array } from '@/schemas/schema';
+import { sentenceSchema } from '@/schemas/sentence';
+import { request, type RequestOptions } from '@/services/api-client';
+import { groupsQuery } from '@/services/groups';
+import { addOutboxListener, OutboxResult, sendWithOutbox } from '@/services/outbox';
+import { invalidateQueries } from '@/services/query-cache';
 import { CreateSentenceCommentInput, SentenceComment, UpdateSentenceCommentInput } from '@/types/comment';
 import { CreateSentenceInput, Sentence, UpdateSentenceInput } from '@/types/sentence';
 
-export async function getGroupSentences(groupId: string): Promise<Sentence[]> {
-  return request<Sentence[]>(`/api/groups/${encodeURIComponent(groupId)}/sentences`);
+// Group payloads carry the weekly activity, which counts sentences alongside records.
+const invalidateGroupActivity = () => {
+  invalidateQueries(groupsQuery.path);
+};
+
+// Queued sentences are sent later by the outbox, outside of createSentenceOrQueue.
+addOutboxListener((event) => {
+  if (event.type === 'sent' && event.entry.kind === 'sentence') {
+    invalidateGroupActivity();
+  }
+});
+
+export async function getGroupSentences(
+  groupId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<Sentence[]> {
+  return request(`/api/groups/${encodeURIComponent(groupId)}/sentences`, {
+    signal: options?.signal,
+    schema: array(sentenceSchema),
+  });
+}
+
+export async function getSentence(
+  sentenceId: string,
+  options?: Pick<RequestOptions, 'signal'>,
+): Promise<Sentence> {
+  return request(`/api/sentences/${encodeURIComponent(sentenceId)}`, {
+    signal: options?.signal,
+    schema: sentenceSchema,
+  });
 }
 
 export async function createSentence(groupId: string, payload: CreateSentenceInput): Promise<Sentence> {
-  return request<Sentence>(`/api/groups/${encodeURIComponent(groupId)}/sentences`, {
+  const sentence = await request(`/api/groups/${encodeURIComponent(groupId)}/sentences`, {
     method: 'POST',
     body: payload,
+    schema: sentenceSchema,
   });
+  invalidateGroupActivity();
+  return sentence;
+}
+
+export async function createSentenceOrQueue(
+  groupId: string,
+  payload: CreateSentenceInput,
+): Promise<OutboxResult<Sentence>> {
+  const result = await sendWithOutbox<Sentence>({
+    kind: 'sentence',
+    path: `/api/groups/${encodeURIComponent(groupId)}/sentences`,
+    body: payload,
+    scope: { groupId },
+  });
+  if (result.status === 'sent') {
+    invalidateGroupActivity();
+  }
+  return result;
 }
 
 export async function updateSentence(sentenceId: string, payload: UpdateSentenceInput): Promise<Sentence> {
-  return request<Sentence>(`/api/sentences/${encodeURIComponent(sentenceId)}`, {
+  return request(`/api/sentences/${encodeURIComponent(sentenceId)}`, {
     method: 'PATCH',
     body: payload,
+    schema: sentenceSchema,
   });
 }
 
@@ -24,19 +78,36 @@ export async function deleteSentence(sentenceId: string): Promise<void> {
   await request<null>(`/api/sentences/${encodeURIComponent(sentenceId)}`, {
     method: 'DELETE',
   });
+  invalidateGroupActivity();
 }
 
 export async function getSentenceComments(sentenceId: string): Promise<SentenceComment[]> {
-  return request<SentenceComment[]>(`/api/sentences/${encodeURIComponent(sentenceId)}/comments`);
+  return request(`/api/sentences/${encodeURIComponent(sentenceId)}/comments`, {
+    schema: array(sentenceCommentSchema),
+  });
 }
 
 export async function createSentenceComment(
   sentenceId: string,
   payload: CreateSentenceCommentInput
 ): Promise<SentenceComment> {
-  return request<SentenceComment>(`/api/sentences/${encodeURIComponent(sentenceId)}/comments`, {
+  return request(`/api/sentences/${encodeURIComponent(sentenceId)}/comments`, {
     method: 'POST',
     body: payload,
+    schema: sentenceCommentSchema,
+  });
+}
+
+export async function createSentenceCommentOrQueue(
+  groupId: string,
+  sentenceId: string,
+  payload: CreateSentenceCommentInput,
+): Promise<OutboxResult<SentenceComment>> {
+  return sendWithOutbox<SentenceComment>({
+    kind: 'sentenceComment',
+    path: `/api/sentences/${encodeURIComponent(sentenceId)}/comments`,
+    body: payload,
+    scope: { groupId, sentenceId },
   });
 }
 
@@ -44,9 +115,10 @@ export async function updateSentenceComment(
   commentId: string,
   payload: UpdateSentenceCommentInput
 ): Promise<SentenceComment> {
-  return request<SentenceComment>(`/api/comments/${encodeURIComponent(commentId)}`, {
+  return request(`/api/comments/${encodeURIComponent(commentId)}`, {
     method: 'PATCH',
     body: payload,
+    schema: sentenceCommentSchema,
   });
 }
 
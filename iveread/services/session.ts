@@ -1,35 +1,273 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-const USER_ID_KEY = 'session.userId';
+import { getSecureStorage, toStorageKey } from '@/services/secure-storage';
+import type { AuthTokens, SavedAccount } from '@/types/auth';
+import type { User } from '@/types/user';
 
-let cachedUserId: string | null = null;
-let hydrated = false;
+const ACCOUNTS_KEY = 'session.accounts';
+const ACTIVE_USER_KEY = 'session.activeUserId';
+const TOKENS_KEY_PREFIX = 'session.tokens.';
+
+// Keys written to plain AsyncStorage by earlier versions of the app.
+const LEGACY_USER_ID_KEY = 'session.userId';
+const LEGACY_ACCESS_TOKEN_KEY = 'session.accessToken';
+const LEGACY_REFRESH_TOKEN_KEY = 'session.refreshToken';
+
+type SessionState = {
+  userId: string | null;
+  accessToken: string | null;
+  refreshToken: string | null;
+};
+
+export type SessionEvent = 'signedIn' | 'signedOut' | 'expired';
+
+type SessionListener = (event: SessionEvent) => void;
+
+const emptySession: SessionState = {
+  userId: null,
+  accessToken: null,
+  refreshToken: null,
+};
+
+let cachedSession: SessionState = emptySession;
+let cachedAccounts: SavedAccount[] = [];
+let hydratePromise: Promise<void> | null = null;
+const listeners = new Set<SessionListener>();
+
+const notify = (event: SessionEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+const getTokensKey = (userId: string) => `${TOKENS_KEY_PREFIX}${toStorageKey(userId)}`;
+
+const parseAccounts = (raw: string | null): SavedAccount[] => {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is SavedAccount =>
+        Boolean(item) && typeof item === 'object' && typeof item.userId === 'string',
+    );
+  } catch {
+    return [];
+  }
+};
+
+const parseTokens = (raw: string | null): AuthTokens | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<AuthTokens> | null;
+    if (!parsed || typeof parsed.accessToken !== 'string' || typeof parsed.refreshToken !== 'string') {
+      return null;
+    }
+    return { accessToken: parsed.accessToken, refreshToken: parsed.refreshToken };
+  } catch {
+    return null;
+  }
+};
+
+async function migrateLegacySession() {
+  const [userId, accessToken, refreshToken] = await Promise.all([
+    AsyncStorage.getItem(LEGACY_USER_ID_KEY),
+    AsyncStorage.getItem(LEGACY_ACCESS_TOKEN_KEY),
+    AsyncStorage.getItem(LEGACY_REFRESH_TOKEN_KEY),
+  ]);
+  if (!userId) return;
+
+  const storage = await getSecureStorage();
+  const accounts = parseAccounts(await storage.getItem(ACCOUNTS_KEY));
+  if (!accounts.some((account) => account.userId === userId)) {
+    accounts.push({ userId, email: null, nickname: null, emoji: null });
+    await storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  }
+  // Installs from before token auth only have a user id, which is not a usable session.
+  if (accessToken && refreshToken) {
+    await storage.setItem(getTokensKey(userId), JSON.stringify({ accessToken, refreshToken }));
+    if (!(await storage.getItem(ACTIVE_USER_KEY))) {
+      await storage.setItem(ACTIVE_USER_KEY, userId);
+    }
+  }
+  await AsyncStorage.multiRemove([
+    LEGACY_USER_ID_KEY,
+    LEGACY_ACCESS_TOKEN_KEY,
+    LEGACY_REFRESH_TOKEN_KEY,
+  ]);
+}
+
+async function loadSession() {
+  try {
+    await migrateLegacySession();
+  } catch {
+    // A failed migration only costs the user one extra login.
+  }
+
+  const storage = await getSecureStorage();
+  const [rawAccounts, activeUserId] = await Promise.all([
+    storage.getItem(ACCOUNTS_KEY),
+    storage.getItem(ACTIVE_USER_KEY),
+  ]);
+  cachedAccounts = parseAccounts(rawAccounts);
+
+  const tokens = activeUserId ? parseTokens(await storage.getItem(getTokensKey(activeUserId))) : null;
+  cachedSession = {
+    userId: activeUserId,
+    accessToken: tokens?.accessToken ?? null,
+    refreshToken: tokens?.refreshToken ?? null,
+  };
+}
 
 async function hydrate() {
-  if (hydrated) return;
-  cachedUserId = await AsyncStorage.getItem(USER_ID_KEY);
-  hydrated = true;
+  if (!hydratePromise) {
+    hydratePromise = loadSession().catch((error) => {
+      hydratePromise = null;
+      throw error;
+    });
+  }
+  await hydratePromise;
+}
+
+async function persistAccounts(accounts: SavedAccount[]) {
+  cachedAccounts = accounts;
+  const storage = await getSecureStorage();
+  await storage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+}
+
+async function persistActive(next: SessionState) {
+  cachedSession = next;
+  const storage = await getSecureStorage();
+  if (next.userId) {
+    await storage.setItem(ACTIVE_USER_KEY, next.userId);
+  } else {
+    await storage.removeItem(ACTIVE_USER_KEY);
+  }
+  if (next.userId && next.accessToken && next.refreshToken) {
+    await storage.setItem(
+      getTokensKey(next.userId),
+      JSON.stringify({ accessToken: next.accessToken, refreshToken: next.refreshToken }),
+    );
+  }
 }
 
-export async function bootstrapSession() {
+/**
+ * Loads the stored session and reports whether the active account still has
+ * tokens, so the root layout can skip the login screen.
+ */
+export async function bootstrapSession(): Promise<boolean> {
   await hydrate();
+  return Boolean(cachedSession.userId && cachedSession.refreshToken);
 }
 
 export async function getUserId(): Promise<string | null> {
   await hydrate();
-  return cachedUserId;
+  return cachedSession.userId;
 }
 
-export async function setUserId(userId: string | null): Promise<void> {
-  cachedUserId = userId;
-  hydrated = true;
-  if (userId) {
-    await AsyncStorage.setItem(USER_ID_KEY, userId);
-  } else {
-    await AsyncStorage.removeItem(USER_ID_KEY);
+export async function getAccessToken(): Promise<string | null> {
+  await hydrate();
+  return cachedSession.accessToken;
+}
+
+export async function getRefreshToken(): Promise<string | null> {
+  await hydrate();
+  return cachedSession.refreshToken;
+}
+
+export async function getSavedAccounts(): Promise<SavedAccount[]> {
+  await hydrate();
+  return cachedAccounts;
+}
+
+export async function setSession(user: User, tokens: AuthTokens): Promise<void> {
+  await hydrate();
+  const account: SavedAccount = {
+    userId: user.id,
+    email: user.email,
+    nickname: user.nickname,
+    emoji: user.emoji,
+  };
+  await persistAccounts([
+    account,
+    ...cachedAccounts.filter((item) => item.userId !== user.id),
+  ]);
+  await persistActive({
+    userId: user.id,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
+  notify('signedIn');
+}
+
+export async function setSessionTokens(tokens: AuthTokens): Promise<void> {
+  await hydrate();
+  await persistActive({
+    ...cachedSession,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
+}
+
+/**
+ * Makes another saved account active. Returns false when that account has no
+ * stored tokens and needs to log in again.
+ */
+export async function switchAccount(userId: string): Promise<boolean> {
+  await hydrate();
+  if (!cachedAccounts.some((account) => account.userId === userId)) {
+    return false;
+  }
+  const storage = await getSecureStorage();
+  const tokens = parseTokens(await storage.getItem(getTokensKey(userId)));
+  if (!tokens) {
+    return false;
   }
+  await persistActive({ userId, ...tokens });
+  notify('signedIn');
+  return true;
+}
+
+async function removeAccount(userId: string) {
+  const storage = await getSecureStorage();
+  await storage.removeItem(getTokensKey(userId));
+  await persistAccounts(cachedAccounts.filter((account) => account.userId !== userId));
+  if (cachedSession.userId === userId) {
+    await persistActive(emptySession);
+  }
+}
+
+export async function removeSavedAccount(userId: string): Promise<void> {
+  await hydrate();
+  const wasActive = cachedSession.userId === userId;
+  await removeAccount(userId);
+  if (wasActive) {
+    notify('signedOut');
+  }
+}
+
+// Drops the active account's tokens but keeps it saved, so it can log in again from the list.
+async function clearActiveAccount() {
+  await hydrate();
+  if (cachedSession.userId) {
+    const storage = await getSecureStorage();
+    await storage.removeItem(getTokensKey(cachedSession.userId));
+  }
+  await persistActive(emptySession);
+}
+
+export async function clearSession(): Promise<void> {
+  await clearActiveAccount();
+  notify('signedOut');
+}
+
+// Called when the server no longer accepts our tokens; listeners send the user back to login.
+export async function expireSession(): Promise<void> {
+  await clearActiveAccount();
+  notify('expired');
 }
 
-export async function clearUserId(): Promise<void> {
-  await setUserId(null);
+export function addSessionListener(listener: SessionListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
 }
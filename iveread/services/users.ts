@@ -1,17 +1,19 @@
-import { request } from '@/services/api-client';
+import { userProfileSchema } from '@/schemas/user';
+import { request, type RequestOptions } from '@/services/api-client';
 import { UpdateUserInput, UserProfile } from '@/types/user';
 
-export async function getMe(): Promise<UserProfile> {
-  return request<UserProfile>('/api/users/me');
+export async function getMe(options?: Pick<RequestOptions, 'signal'>): Promise<UserProfile> {
+  return request('/api/users/me', { signal: options?.signal, schema: userProfileSchema });
 }
 
 export async function updateMe(payload: UpdateUserInput): Promise<UserProfile> {
-  return request<UserProfile>('/api/users/me', {
+  return request('/api/users/me', {
     method: 'PATCH',
     body: payload,
+    schema: userProfileSchema,
   });
 }
 
 export async function getUserById(userId: string): Promise<UserProfile> {
-  return request<UserProfile>(`/api/users/${encodeURIComponent(userId)}`);
+  return request(`/api/users/${encodeURIComponent(userId)}`, { schema: userProfileSchema });
 }
@@ -15,3 +15,15 @@ export type ApiFailure = {
 };
 
 export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
+
+export type CursorPageQuery = {
+  // Opaque cursor from the previous page's `nextCursor`.
+  cursor?: string;
+  limit?: number;
+};
+
+export type CursorPage<T> = {
+  items: T[];
+  // Null once the last page has been returned.
+  nextCursor: string | null;
+};
@@ -0,0 +1,40 @@
+import type { User } from '@/types/user';
+
+export type AuthTokens = {
+  accessToken: string;
+  refreshToken: string;
+};
+
+export type AuthResponse = AuthTokens & {
+  user: User;
+};
+
+export type SavedAccount = {
+  userId: string;
+  email: string | null;
+  nickname: string | null;
+  emoji: string | null;
+};
+
+export type PasswordResetRequestInput = {
+  email: string;
+};
+
+export type PasswordResetVerifyInput = {
+  email: string;
+  code: string;
+};
+
+export type PasswordResetVerifyResponse = {
+  resetToken: string;
+};
+
+export type PasswordResetConfirmInput = {
+  resetToken: string;
+  newPassword: string;
+};
+
+export type ChangePasswordInput = {
+  currentPassword: string;
+  newPassword: string;
+};
@@ -0,0 +1,26 @@
+export type GroupInvite = {
+  groupId: string;
+  code: string;
+  createdAt: string;
+};
+
+// What someone opening an invite link sees before joining.
+export type GroupInvitePreview = {
+  code: string;
+  groupId: string;
+  groupName: string;
+  bookTitle: string;
+  bookCover: string;
+  memberCount: number;
+  memberLimit: number | null;
+  isMember: boolean;
+};
+
+export type GroupJoinRequest = {
+  id: string;
+  groupId: string;
+  userId: string;
+  userNickname: string;
+  userProfileEmoji: string | null;
+  createdAt: string;
+};
@@ -7,16 +7,51 @@ export type GroupBookInput = {
   totalPage: number;
 };
 
+// `public` groups can be joined from search, `approval` groups take a join request the
+// admins approve, and `invite` groups are hidden from search and joined by invite code only.
+export type GroupVisibility = 'public' | 'approval' | 'invite';
+
 export type CreateGroupInput = {
   name: string;
   startDate: string;
   goalDate: string | null;
   book: GroupBookInput;
+  description?: string;
+  memberLimit: number;
+  tags: string[];
+  visibility: GroupVisibility;
 };
 
 export type UpdateGroupInput = {
   name?: string;
-  goalDate?: string;
+  // null removes the goal date.
+  goalDate?: string | null;
+  description?: string;
+  memberLimit?: number;
+  tags?: string[];
+  visibility?: GroupVisibility;
+};
+
+// The owner is also an admin; only the owner can promote admins, transfer ownership or delete.
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export type GroupMember = {
+  id: string;
+  nickname: string;
+  emoji: string;
+  role: GroupRole;
+  // `endPage` of the member's latest record in the group, null before their first record.
+  currentPage: number | null;
+};
+
+// Computed by the server over the last seven days.
+export type GroupActivity = {
+  // Records and sentences posted in the window.
+  postCount: number;
+  // Members with at least one record in the window.
+  activeMemberCount: number;
+  // Latest record or sentence, null before the group's first one.
+  lastActiveAt: string | null;
 };
 
 export type Group = {
@@ -27,13 +62,20 @@ export type Group = {
   bookIsbn: string;
   bookTitle: string;
   bookCover: string;
+  // Null when the book's page count is unknown; progress can't be computed then.
+  totalPage: number | null;
+  description: string | null;
   memberCount: number;
+  // Null for groups created before limits existed; they never fill up.
+  memberLimit: number | null;
+  tags: string[];
+  visibility: GroupVisibility;
+  // Whether the viewer has a pending join request for an `approval` group.
+  requestedByMe: boolean;
   createdAt: string;
-  members?: {
-    id: string;
-    nickname: string;
-    emoji: string;
-  }[];
+  members?: GroupMember[];
+  // Absent from backends that don't compute it yet.
+  activity?: GroupActivity;
 };
 
 export type FinishedGroup = {
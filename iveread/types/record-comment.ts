@@ -1,5 +1,7 @@
 export type CreateRecordCommentInput = {
   content: string;
+  // Replies stay one level deep; a reply to a reply joins the top-level comment's thread.
+  parentCommentId?: string;
 };
 
 export type UpdateRecordCommentInput = {
@@ -14,4 +16,5 @@ export type RecordComment = {
   userNickname: string;
   userProfileEmoji: string | null;
   recordId: string;
+  parentCommentId: string | null;
 };
@@ -0,0 +1,18 @@
+export type RecordLikeState = {
+  liked: boolean;
+  likeCount: number;
+};
+
+export type RecordLiker = {
+  userId: string;
+  userNickname: string;
+  userProfileEmoji: string | null;
+  likedAt: string;
+};
+
+export type RecordLikeSummary = {
+  likeCount: number;
+  likedByMe: boolean;
+  // Most recent first.
+  likers: RecordLiker[];
+};
@@ -6,6 +6,11 @@ export type UpdateRecordReactionInput = {
   emoji?: string;
 };
 
+export type RecordReactionCount = {
+  emoji: string;
+  count: number;
+};
+
 export type RecordReaction = {
   id: string;
   emoji: string;
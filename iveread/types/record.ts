@@ -1,3 +1,5 @@
+import type { RecordReaction, RecordReactionCount } from '@/types/record-reaction';
+
 export type CreateRecordInput = {
   readDate: string;
   startPage: number;
@@ -16,6 +18,7 @@ export type UpdateRecordInput = {
 
 export type ReadingRecord = {
   id: string;
+  groupId: string;
   readDate: string;
   startPage: number;
   endPage: number;
@@ -28,4 +31,11 @@ export type ReadingRecord = {
   bookIsbn: string;
   bookTitle: string;
   bookCoverImage: string;
+  commentCount: number;
+  likeCount: number;
+  likedByMe: boolean;
+  // Per-emoji totals; who reacted loads with getRecordReactions when a post is opened.
+  reactionCounts: RecordReactionCount[];
+  // Each user keeps at most one reaction per record.
+  myReaction: RecordReaction | null;
 };
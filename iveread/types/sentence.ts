@@ -1,3 +1,5 @@
+import type { SentenceComment } from '@/types/comment';
+
 export type CreateSentenceInput = {
   content: string;
   pageNo: number;
@@ -13,6 +15,7 @@ export type UpdateSentenceInput = {
 
 export type Sentence = {
   id: string;
+  groupId: string;
   content: string;
   pageNo: number;
   thought: string | null;
@@ -23,4 +26,7 @@ export type Sentence = {
   bookIsbn: string;
   bookTitle: string;
   bookCoverImage: string;
+  commentCount: number;
+  // The most recent comments, oldest first; fetch the rest with getSentenceComments.
+  commentPreview: SentenceComment[];
 };